@@ -0,0 +1,85 @@
+(() => {
+  // src/lib/code-blocks.ts
+  var LANGUAGE_CLASS = /\blang(?:uage)?-([\w-]+)/;
+  var languageOf = (pre, code) => pre.dataset.language ?? (code.className.match(LANGUAGE_CLASS) ?? pre.className.match(LANGUAGE_CLASS))?.[1];
+  var parseLines = (spec, count) => {
+    const lines = new Set;
+    for (const part of spec.split(",")) {
+      const [start, end = start] = part.split("-").map((bound) => Number.parseInt(bound, 10));
+      if (!start || !end)
+        continue;
+      for (let line = start;line <= Math.min(end, count); line++) {
+        lines.add(line);
+      }
+    }
+    return lines;
+  };
+  var lineLayer = (name, count, highlighted, numbered) => {
+    const layer = document.createElement("span");
+    layer.setAttribute(name, "");
+    layer.setAttribute("aria-hidden", "true");
+    for (let line = 1;line <= count; line++) {
+      const row = document.createElement("span");
+      if (numbered)
+        row.textContent = String(line);
+      if (highlighted.has(line))
+        row.dataset.highlighted = "";
+      layer.append(row);
+    }
+    return layer;
+  };
+  var addHeader = (pre, title, language) => {
+    const parent = pre.parentElement;
+    const block = parent?.hasAttribute("data-copy-code") ? parent : pre;
+    let caption = block.parentElement?.tagName === "FIGURE" ? block.parentElement.querySelector(":scope > figcaption") : null;
+    if (!caption) {
+      caption = document.createElement("figcaption");
+      if (title)
+        caption.append(title);
+      if (block.parentElement?.tagName === "FIGURE") {
+        block.before(caption);
+      } else {
+        const figure = document.createElement("figure");
+        block.replaceWith(figure);
+        figure.append(caption, block);
+      }
+    }
+    if (language) {
+      const badge = document.createElement("span");
+      badge.dataset.language = language;
+      badge.textContent = language;
+      caption.append(badge);
+    }
+  };
+  function enhanceCodeBlocks(root = document) {
+    for (const pre of Array.from(root.querySelectorAll("pre"))) {
+      const code = pre.querySelector(":scope > code");
+      if (!code)
+        continue;
+      const title = pre.dataset.title;
+      const language = languageOf(pre, code);
+      if (title || language)
+        addHeader(pre, title, language);
+      const numbered = pre.hasAttribute("data-line-numbers");
+      const spec = pre.dataset.lines;
+      if (!numbered && spec === undefined)
+        continue;
+      const count = (code.textContent ?? "").replace(/\n$/, "").split(`
+`).length;
+      const highlighted = parseLines(spec ?? "", count);
+      if (highlighted.size > 0) {
+        code.before(lineLayer("data-line-highlights", count, highlighted, false));
+      }
+      if (numbered) {
+        code.before(lineLayer("data-line-gutter", count, highlighted, true));
+      }
+    }
+  }
+  if (typeof document !== "undefined") {
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", () => enhanceCodeBlocks());
+    } else {
+      enhanceCodeBlocks();
+    }
+  }
+})();
@@ -0,0 +1,2 @@
+(()=>{var d=/\blang(?:uage)?-([\w-]+)/,m=(i,a)=>i.dataset.language??(a.className.match(d)??i.className.match(d))?.[1],f=(i,a)=>{let o=new Set;for(let r of i.split(",")){let[t,n=t]=r.split("-").map((e)=>Number.parseInt(e,10));if(!t||!n)continue;for(let e=t;e<=Math.min(n,a);e++)o.add(e)}return o},l=(i,a,o,r)=>{let t=document.createElement("span");t.setAttribute(i,""),t.setAttribute("aria-hidden","true");for(let n=1;n<=a;n++){let e=document.createElement("span");if(r)e.textContent=String(n);if(o.has(n))e.dataset.highlighted="";t.append(e)}return t},p=(i,a,o)=>{let r=i.parentElement,t=r?.hasAttribute("data-copy-code")?r:i,n=t.parentElement?.tagName==="FIGURE"?t.parentElement.querySelector(":scope > figcaption"):null;if(!n){if(n=document.createElement("figcaption"),a)n.append(a);if(t.parentElement?.tagName==="FIGURE")t.before(n);else{let e=document.createElement("figure");t.replaceWith(e),e.append(n,t)}}if(o){let e=document.createElement("span");e.dataset.language=o,e.textContent=o,n.append(e)}};function u(i=document){for(let a of Array.from(i.querySelectorAll("pre"))){let o=a.querySelector(":scope > code");if(!o)continue;let r=a.dataset.title,t=m(a,o);if(r||t)p(a,r,t);let n=a.hasAttribute("data-line-numbers"),e=a.dataset.lines;if(!n&&e===void 0)continue;let s=(o.textContent??"").replace(/\n$/,"").split(`
+`).length,c=f(e??"",s);if(c.size>0)o.before(l("data-line-highlights",s,c,!1));if(n)o.before(l("data-line-gutter",s,c,!0))}}if(typeof document<"u")if(document.readyState==="loading")document.addEventListener("DOMContentLoaded",()=>u());else u();})();
@@ -0,0 +1,87 @@
+(() => {
+  // src/lib/copy-code.ts
+  var RESULT_DURATION = 2000;
+  var statusRegion = () => {
+    let region = document.querySelector("[data-copy-status]");
+    if (!region) {
+      region = document.createElement("div");
+      region.dataset.copyStatus = "";
+      region.setAttribute("role", "status");
+      region.setAttribute("aria-live", "polite");
+      document.body.append(region);
+    }
+    return region;
+  };
+  var copyWithSelection = (text) => {
+    const active = document.activeElement;
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    textarea.readOnly = true;
+    textarea.style.position = "fixed";
+    textarea.style.opacity = "0";
+    document.body.append(textarea);
+    textarea.select();
+    const copied = document.execCommand("copy");
+    textarea.remove();
+    active?.focus();
+    if (!copied)
+      throw new Error("Copy command was rejected");
+  };
+  async function copyText(text) {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      copyWithSelection(text);
+    }
+  }
+  var announce = (region, message) => {
+    region.textContent = "";
+    requestAnimationFrame(() => {
+      region.textContent = message;
+    });
+  };
+  function addCopyButtons(root = document) {
+    const blocks = root.querySelectorAll("pre:not([data-no-copy]) > code");
+    if (!blocks.length)
+      return;
+    const region = statusRegion();
+    for (const code of Array.from(blocks)) {
+      const pre = code.parentElement;
+      if (pre.parentElement?.hasAttribute("data-copy-code"))
+        continue;
+      const wrapper = document.createElement("div");
+      wrapper.dataset.copyCode = "";
+      pre.replaceWith(wrapper);
+      wrapper.append(pre);
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = "Copy";
+      button.setAttribute("aria-label", "Copy code");
+      let reset;
+      button.addEventListener("click", async () => {
+        let result = "Copied";
+        try {
+          await copyText(code.textContent ?? "");
+        } catch {
+          result = "Copy failed";
+        }
+        announce(region, result);
+        button.textContent = result;
+        button.dataset.result = result === "Copied" ? "copied" : "failed";
+        clearTimeout(reset);
+        reset = setTimeout(() => {
+          button.textContent = "Copy";
+          delete button.dataset.result;
+        }, RESULT_DURATION);
+      });
+      wrapper.append(button);
+    }
+  }
+  if (typeof document !== "undefined") {
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", () => addCopyButtons());
+    } else {
+      addCopyButtons();
+    }
+  }
+})();
@@ -0,0 +1 @@
+(()=>{var u=()=>{let e=document.querySelector("[data-copy-status]");if(!e)e=document.createElement("div"),e.dataset.copyStatus="",e.setAttribute("role","status"),e.setAttribute("aria-live","polite"),document.body.append(e);return e},l=(e)=>{let n=document.activeElement,t=document.createElement("textarea");t.value=e,t.readOnly=!0,t.style.position="fixed",t.style.opacity="0",document.body.append(t),t.select();let a=document.execCommand("copy");if(t.remove(),n?.focus(),!a)throw Error("Copy command was rejected")};async function p(e){try{await navigator.clipboard.writeText(e)}catch{l(e)}}var m=(e,n)=>{e.textContent="",requestAnimationFrame(()=>{e.textContent=n})};function s(e=document){let n=e.querySelectorAll("pre:not([data-no-copy]) > code");if(!n.length)return;let t=u();for(let a of Array.from(n)){let r=a.parentElement;if(r.parentElement?.hasAttribute("data-copy-code"))continue;let c=document.createElement("div");c.dataset.copyCode="",r.replaceWith(c),c.append(r);let o=document.createElement("button");o.type="button",o.textContent="Copy",o.setAttribute("aria-label","Copy code");let i;o.addEventListener("click",async()=>{let d="Copied";try{await p(a.textContent??"")}catch{d="Copy failed"}m(t,d),o.textContent=d,o.dataset.result=d==="Copied"?"copied":"failed",clearTimeout(i),i=setTimeout(()=>{o.textContent="Copy",delete o.dataset.result},2000)}),c.append(o)}}if(typeof document<"u")if(document.readyState==="loading")document.addEventListener("DOMContentLoaded",()=>s());else s();})();
@@ -0,0 +1,34 @@
+(() => {
+  // src/lib/stack-tables.ts
+  var columnLabels = (table) => {
+    const header = table.tHead?.rows[0];
+    if (!header)
+      return [];
+    return Array.from(header.cells).flatMap((cell) => Array(cell.colSpan).fill(cell.textContent?.trim() ?? ""));
+  };
+  function labelTables(root = document) {
+    const tables = root.querySelectorAll("table[data-stack]");
+    for (const table of Array.from(tables)) {
+      const labels = columnLabels(table);
+      for (const body of Array.from(table.tBodies)) {
+        for (const row of Array.from(body.rows)) {
+          let column = 0;
+          for (const cell of Array.from(row.cells)) {
+            const label = labels[column];
+            if (label && !cell.hasAttribute("data-label")) {
+              cell.dataset.label = label;
+            }
+            column += cell.colSpan;
+          }
+        }
+      }
+    }
+  }
+  if (typeof document !== "undefined") {
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", () => labelTables());
+    } else {
+      labelTables();
+    }
+  }
+})();
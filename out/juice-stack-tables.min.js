@@ -0,0 +1 @@
+(()=>{var d=(o)=>{let t=o.tHead?.rows[0];if(!t)return[];return Array.from(t.cells).flatMap((e)=>Array(e.colSpan).fill(e.textContent?.trim()??""))};function n(o=document){let t=o.querySelectorAll("table[data-stack]");for(let e of Array.from(t)){let s=d(e);for(let c of Array.from(e.tBodies))for(let f of Array.from(c.rows)){let r=0;for(let a of Array.from(f.cells)){let l=s[r];if(l&&!a.hasAttribute("data-label"))a.dataset.label=l;r+=a.colSpan}}}}if(typeof document<"u")if(document.readyState==="loading")document.addEventListener("DOMContentLoaded",()=>n());else n();})();
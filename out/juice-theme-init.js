@@ -0,0 +1,43 @@
+(() => {
+  // src/lib/color-schemes.ts
+  var COLOR_SCHEMES = {
+    light: "light",
+    dark: "dark",
+    "high-contrast": "light",
+    sepia: "light"
+  };
+
+  // src/lib/theme-store.ts
+  var DEFAULT_STORAGE_KEY = "theme";
+  var storage = () => {
+    try {
+      return window.localStorage;
+    } catch {
+      return null;
+    }
+  };
+  function savedTheme(storageKey = DEFAULT_STORAGE_KEY) {
+    return storage()?.getItem(storageKey) || "auto";
+  }
+  function colorScheme(theme) {
+    return COLOR_SCHEMES[theme] ?? "light dark";
+  }
+  function applyTheme(theme) {
+    const root = document.documentElement;
+    if (theme === "auto") {
+      root.removeAttribute("data-theme");
+    } else {
+      root.dataset.theme = theme;
+    }
+    let meta = document.querySelector('meta[name="color-scheme"]');
+    if (!meta) {
+      meta = document.createElement("meta");
+      meta.name = "color-scheme";
+      document.head.append(meta);
+    }
+    meta.content = colorScheme(theme);
+  }
+
+  // src/lib/theme-init.ts
+  applyTheme(savedTheme(document.currentScript?.dataset.storageKey || DEFAULT_STORAGE_KEY));
+})();
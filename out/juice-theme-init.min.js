@@ -0,0 +1 @@
+(()=>{var r={light:"light",dark:"dark","high-contrast":"light",sepia:"light"};var n="theme",m=()=>{try{return window.localStorage}catch{return null}};function c(e=n){return m()?.getItem(e)||"auto"}function u(e){return r[e]??"light dark"}function a(e){let o=document.documentElement;if(e==="auto")o.removeAttribute("data-theme");else o.dataset.theme=e;let t=document.querySelector('meta[name="color-scheme"]');if(!t)t=document.createElement("meta"),t.name="color-scheme",document.head.append(t);t.content=u(e)}a(c(document.currentScript?.dataset.storageKey||n));})();
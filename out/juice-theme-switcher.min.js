@@ -0,0 +1 @@
+(()=>{var h=(e)=>e.split("-").map((t)=>t.charAt(0).toUpperCase()+t.slice(1)).join(" ");var l={light:"light",dark:"dark","high-contrast":"light",sepia:"light"};var a="theme",d=()=>{try{return window.localStorage}catch{return null}},p=(e=a)=>`juice-theme:${e}`;function g(e=a){return d()?.getItem(e)||"auto"}function i(){return document.documentElement.dataset.theme??"auto"}function k(e){return l[e]??"light dark"}function c(e){let t=document.documentElement;if(e==="auto")t.removeAttribute("data-theme");else t.dataset.theme=e;let r=document.querySelector('meta[name="color-scheme"]');if(!r)r=document.createElement("meta"),r.name="color-scheme",document.head.append(r);r.content=k(e)}function f(e,t=a){if(c(e),e==="auto")d()?.removeItem(t);else d()?.setItem(t,e);if(typeof BroadcastChannel<"u"){let r=new BroadcastChannel(p(t));r.postMessage(e),r.close()}}var y="(prefers-color-scheme: dark)",S=()=>matchMedia(y).matches?"dark":"light";function C(e=i()){let t=e==="auto"?S():e;return{preference:e,resolved:t,colorScheme:l[t]??S()}}function u(e,t=a){let r="",s=()=>{let n=C(),v=`${n.preference} ${n.colorScheme}`;if(v===r)return;r=v,e(n)},o=(n)=>{if(n!==i())c(n)},m=(n)=>{if(n.key===t||n.key===null)o(n.newValue||"auto")},T=typeof BroadcastChannel>"u"?null:new BroadcastChannel(p(t));T?.addEventListener("message",(n)=>{if(typeof n.data==="string")o(n.data)});let b=new MutationObserver(s);b.observe(document.documentElement,{attributeFilter:["data-theme"]});let E=matchMedia(y);return E.addEventListener("change",s),window.addEventListener("storage",m),s(),()=>{b.disconnect(),E.removeEventListener("change",s),window.removeEventListener("storage",m),T?.close()}}var A="juice-theme-switcher",x=["auto","light","dark"],w=["select","segmented","toggle"],M=0;class L extends HTMLElement{static observedAttributes=["themes","variant","storage-key","label"];static subscribe=u;#a=`juice-theme-${++M}`;#e=!1;#t;constructor(){super();this.addEventListener("change",(e)=>{let t=e.target;if(t instanceof HTMLSelectElement||t instanceof HTMLInputElement)this.#r(t.value)}),this.addEventListener("click",(e)=>{if(this.variant==="toggle"&&e.target instanceof HTMLButtonElement){let{themes:t}=this,r=(t.indexOf(i())+1)%t.length;this.#r(t[r])}})}get themes(){let e=this.getAttribute("themes")?.split(/\s+/).filter(Boolean);return e?.length?e:x}set themes(e){this.setAttribute("themes",e.join(" "))}get variant(){let e=this.getAttribute("variant");return w.includes(e)?e:"select"}set variant(e){this.setAttribute("variant",e)}get storageKey(){return this.getAttribute("storage-key")||a}set storageKey(e){this.setAttribute("storage-key",e)}get label(){return this.getAttribute("label")||"Theme"}set label(e){this.setAttribute("label",e)}get theme(){return i()}set theme(e){this.#r(e)}connectedCallback(){this.#e=!0,this.#s(),this.#o(),this.#n()}disconnectedCallback(){this.#e=!1,this.#t?.()}attributeChangedCallback(e){if(!this.#e)return;if(this.#s(),this.#o(),e==="storage-key")this.#n()}#n(){this.#t?.(),this.#t=u(this.#i,this.storageKey)}#s(){let e=g(this.storageKey);if(e!==i()&&this.themes.includes(e))c(e)}#r(e){let t=i();if(e===t)return;f(e,this.storageKey),this.dispatchEvent(new CustomEvent("themechange",{bubbles:!0,composed:!0,detail:{theme:e,previous:t}}))}#o(){let{themes:e}=this;switch(this.variant){case"select":{let t=this.querySelector("select"),r=t??document.createElement("select"),s=Array.from(r.options).filter((o)=>!o.hasAttribute("data-unlisted"));if(r.replaceChildren(...e.map((o)=>s.find((m)=>m.value===o)??new Option(h(o),o))),!t)r.setAttribute("aria-label",this.label),this.replaceChildren(r);break}case"segmented":{let t=document.createElement("div");t.setAttribute("role","radiogroup"),t.setAttribute("aria-label",this.label);for(let r of e){let s=document.createElement("input");s.type="radio",s.name=this.#a,s.value=r;let o=document.createElement("label");o.append(s,h(r)),t.append(o)}this.replaceChildren(t);break}case"toggle":{let t=document.createElement("button");t.type="button",this.replaceChildren(t);break}}this.#i()}#i=()=>{let e=i();switch(this.variant){case"select":{let t=this.querySelector("select");if(!t)break;if(t.querySelector("option[data-unlisted]")?.remove(),!this.themes.includes(e)){let r=new Option(h(e),e);r.dataset.unlisted="",t.add(r)}t.value=e;break}case"segmented":for(let t of Array.from(this.querySelectorAll('input[type="radio"]')))t.checked=t.value===e;break;case"toggle":{let t=this.querySelector("button");if(t)t.textContent=`${this.label}: ${h(e)}`;break}}}}if(typeof customElements<"u"&&!customElements.get(A))customElements.define(A,L);})();
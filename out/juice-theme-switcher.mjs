@@ -0,0 +1,291 @@
+// src/lib/theme-label.ts
+var themeLabel = (name) => name.split("-").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+// src/lib/color-schemes.ts
+var COLOR_SCHEMES = {
+  light: "light",
+  dark: "dark",
+  "high-contrast": "light",
+  sepia: "light"
+};
+
+// src/lib/theme-store.ts
+var DEFAULT_STORAGE_KEY = "theme";
+var storage = () => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+var themeChannel = (storageKey = DEFAULT_STORAGE_KEY) => `juice-theme:${storageKey}`;
+function savedTheme(storageKey = DEFAULT_STORAGE_KEY) {
+  return storage()?.getItem(storageKey) || "auto";
+}
+function currentTheme() {
+  return document.documentElement.dataset.theme ?? "auto";
+}
+function colorScheme(theme) {
+  return COLOR_SCHEMES[theme] ?? "light dark";
+}
+function applyTheme(theme) {
+  const root = document.documentElement;
+  if (theme === "auto") {
+    root.removeAttribute("data-theme");
+  } else {
+    root.dataset.theme = theme;
+  }
+  let meta = document.querySelector('meta[name="color-scheme"]');
+  if (!meta) {
+    meta = document.createElement("meta");
+    meta.name = "color-scheme";
+    document.head.append(meta);
+  }
+  meta.content = colorScheme(theme);
+}
+function setTheme(theme, storageKey = DEFAULT_STORAGE_KEY) {
+  applyTheme(theme);
+  if (theme === "auto") {
+    storage()?.removeItem(storageKey);
+  } else {
+    storage()?.setItem(storageKey, theme);
+  }
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(themeChannel(storageKey));
+    channel.postMessage(theme);
+    channel.close();
+  }
+}
+
+// src/lib/theme-sync.ts
+var DARK_QUERY = "(prefers-color-scheme: dark)";
+var systemScheme = () => matchMedia(DARK_QUERY).matches ? "dark" : "light";
+function themeState(preference = currentTheme()) {
+  const resolved = preference === "auto" ? systemScheme() : preference;
+  return {
+    preference,
+    resolved,
+    colorScheme: COLOR_SCHEMES[resolved] ?? systemScheme()
+  };
+}
+function subscribeTheme(listener, storageKey = DEFAULT_STORAGE_KEY) {
+  let last = "";
+  const notify = () => {
+    const state = themeState();
+    const key = `${state.preference} ${state.colorScheme}`;
+    if (key === last)
+      return;
+    last = key;
+    listener(state);
+  };
+  const adopt = (theme) => {
+    if (theme !== currentTheme())
+      applyTheme(theme);
+  };
+  const onStorage = (event) => {
+    if (event.key === storageKey || event.key === null) {
+      adopt(event.newValue || "auto");
+    }
+  };
+  const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(themeChannel(storageKey));
+  channel?.addEventListener("message", (event) => {
+    if (typeof event.data === "string")
+      adopt(event.data);
+  });
+  const observer = new MutationObserver(notify);
+  observer.observe(document.documentElement, {
+    attributeFilter: ["data-theme"]
+  });
+  const media = matchMedia(DARK_QUERY);
+  media.addEventListener("change", notify);
+  window.addEventListener("storage", onStorage);
+  notify();
+  return () => {
+    observer.disconnect();
+    media.removeEventListener("change", notify);
+    window.removeEventListener("storage", onStorage);
+    channel?.close();
+  };
+}
+
+// src/lib/theme-switcher.ts
+var THEME_SWITCHER_TAG = "juice-theme-switcher";
+var DEFAULT_THEMES = ["auto", "light", "dark"];
+var VARIANTS = ["select", "segmented", "toggle"];
+var instances = 0;
+
+class JuiceThemeSwitcher extends HTMLElement {
+  static observedAttributes = ["themes", "variant", "storage-key", "label"];
+  static subscribe = subscribeTheme;
+  #group = `juice-theme-${++instances}`;
+  #connected = false;
+  #unsubscribe;
+  constructor() {
+    super();
+    this.addEventListener("change", (event) => {
+      const control = event.target;
+      if (control instanceof HTMLSelectElement || control instanceof HTMLInputElement) {
+        this.#choose(control.value);
+      }
+    });
+    this.addEventListener("click", (event) => {
+      if (this.variant === "toggle" && event.target instanceof HTMLButtonElement) {
+        const { themes } = this;
+        const next = (themes.indexOf(currentTheme()) + 1) % themes.length;
+        this.#choose(themes[next]);
+      }
+    });
+  }
+  get themes() {
+    const themes = this.getAttribute("themes")?.split(/\s+/).filter(Boolean);
+    return themes?.length ? themes : DEFAULT_THEMES;
+  }
+  set themes(themes) {
+    this.setAttribute("themes", themes.join(" "));
+  }
+  get variant() {
+    const variant = this.getAttribute("variant");
+    return VARIANTS.includes(variant) ? variant : "select";
+  }
+  set variant(variant) {
+    this.setAttribute("variant", variant);
+  }
+  get storageKey() {
+    return this.getAttribute("storage-key") || DEFAULT_STORAGE_KEY;
+  }
+  set storageKey(key) {
+    this.setAttribute("storage-key", key);
+  }
+  get label() {
+    return this.getAttribute("label") || "Theme";
+  }
+  set label(label) {
+    this.setAttribute("label", label);
+  }
+  get theme() {
+    return currentTheme();
+  }
+  set theme(theme) {
+    this.#choose(theme);
+  }
+  connectedCallback() {
+    this.#connected = true;
+    this.#restore();
+    this.#render();
+    this.#subscribe();
+  }
+  disconnectedCallback() {
+    this.#connected = false;
+    this.#unsubscribe?.();
+  }
+  attributeChangedCallback(name) {
+    if (!this.#connected)
+      return;
+    this.#restore();
+    this.#render();
+    if (name === "storage-key")
+      this.#subscribe();
+  }
+  #subscribe() {
+    this.#unsubscribe?.();
+    this.#unsubscribe = subscribeTheme(this.#update, this.storageKey);
+  }
+  #restore() {
+    const saved = savedTheme(this.storageKey);
+    if (saved !== currentTheme() && this.themes.includes(saved)) {
+      applyTheme(saved);
+    }
+  }
+  #choose(theme) {
+    const previous = currentTheme();
+    if (theme === previous)
+      return;
+    setTheme(theme, this.storageKey);
+    this.dispatchEvent(new CustomEvent("themechange", {
+      bubbles: true,
+      composed: true,
+      detail: { theme, previous }
+    }));
+  }
+  #render() {
+    const { themes } = this;
+    switch (this.variant) {
+      case "select": {
+        const existing = this.querySelector("select");
+        const select = existing ?? document.createElement("select");
+        const options = Array.from(select.options).filter((option) => !option.hasAttribute("data-unlisted"));
+        select.replaceChildren(...themes.map((theme) => options.find((option) => option.value === theme) ?? new Option(themeLabel(theme), theme)));
+        if (!existing) {
+          select.setAttribute("aria-label", this.label);
+          this.replaceChildren(select);
+        }
+        break;
+      }
+      case "segmented": {
+        const group = document.createElement("div");
+        group.setAttribute("role", "radiogroup");
+        group.setAttribute("aria-label", this.label);
+        for (const theme of themes) {
+          const radio = document.createElement("input");
+          radio.type = "radio";
+          radio.name = this.#group;
+          radio.value = theme;
+          const option = document.createElement("label");
+          option.append(radio, themeLabel(theme));
+          group.append(option);
+        }
+        this.replaceChildren(group);
+        break;
+      }
+      case "toggle": {
+        const button = document.createElement("button");
+        button.type = "button";
+        this.replaceChildren(button);
+        break;
+      }
+    }
+    this.#update();
+  }
+  #update = () => {
+    const theme = currentTheme();
+    switch (this.variant) {
+      case "select": {
+        const select = this.querySelector("select");
+        if (!select)
+          break;
+        select.querySelector("option[data-unlisted]")?.remove();
+        if (!this.themes.includes(theme)) {
+          const option = new Option(themeLabel(theme), theme);
+          option.dataset.unlisted = "";
+          select.add(option);
+        }
+        select.value = theme;
+        break;
+      }
+      case "segmented":
+        for (const radio of Array.from(this.querySelectorAll('input[type="radio"]'))) {
+          radio.checked = radio.value === theme;
+        }
+        break;
+      case "toggle": {
+        const button = this.querySelector("button");
+        if (button)
+          button.textContent = `${this.label}: ${themeLabel(theme)}`;
+        break;
+      }
+    }
+  };
+}
+if (typeof customElements !== "undefined" && !customElements.get(THEME_SWITCHER_TAG)) {
+  customElements.define(THEME_SWITCHER_TAG, JuiceThemeSwitcher);
+}
+export {
+  JuiceThemeSwitcher,
+  THEME_SWITCHER_TAG,
+  applyTheme,
+  currentTheme,
+  savedTheme,
+  setTheme,
+  subscribeTheme,
+  themeState
+};
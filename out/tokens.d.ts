@@ -0,0 +1,290 @@
+/**
+ * juice.css design tokens
+ * Auto-generated from src/lib/tokens.ts
+ * DO NOT EDIT DIRECTLY - regenerate with: bun run build
+ */
+
+export type ThemeName =
+	| "light"
+	| "dark"
+	| "high-contrast"
+	| "sepia";
+
+export type DesignTokenName =
+	| "font-size-base"
+	| "font-size-large-title"
+	| "font-size-title-1"
+	| "font-size-title-2"
+	| "font-size-title-3"
+	| "font-size-headline"
+	| "font-size-body"
+	| "font-size-callout"
+	| "font-size-subhead"
+	| "font-size-footnote"
+	| "font-size-caption"
+	| "line-height-tight"
+	| "line-height-base"
+	| "line-height-relaxed"
+	| "font-weight-regular"
+	| "font-weight-medium"
+	| "font-weight-semibold"
+	| "font-weight-bold"
+	| "letter-spacing-tight"
+	| "letter-spacing-normal"
+	| "letter-spacing-wide"
+	| "space-1"
+	| "space-2"
+	| "space-3"
+	| "space-4"
+	| "space-5"
+	| "space-6"
+	| "space-8"
+	| "space-9"
+	| "space-10"
+	| "radius-sm"
+	| "radius-md"
+	| "radius-lg"
+	| "radius-xl"
+	| "radius-full"
+	| "border-thin"
+	| "border-base"
+	| "tap-target-min"
+	| "animation-duration"
+	| "animation-easing"
+	| "z-base"
+	| "z-dropdown"
+	| "z-sticky"
+	| "z-modal"
+	| "z-popover"
+	| "z-tooltip";
+
+export type ColorTokenName =
+	| "background-body"
+	| "background"
+	| "background-alt"
+	| "text-main"
+	| "text-bright"
+	| "text-muted"
+	| "links"
+	| "focus"
+	| "selection"
+	| "border"
+	| "code"
+	| "code-bg"
+	| "highlight"
+	| "button-base"
+	| "button-hover"
+	| "button-text"
+	| "form-placeholder"
+	| "form-text"
+	| "slider-thumb"
+	| "scrollbar-thumb"
+	| "scrollbar-thumb-hover"
+	| "success"
+	| "warning"
+	| "error"
+	| "variable"
+	| "select-arrow"
+	| "print-bg"
+	| "print-text"
+	| "print-border"
+	| "print-alt-bg"
+	| "print-link";
+
+export type TokenName = DesignTokenName | ColorTokenName;
+
+/** Design tokens shared by every theme */
+export declare const tokens: {
+	readonly "font-size-base": "1rem";
+	readonly "font-size-large-title": "2.125rem";
+	readonly "font-size-title-1": "1.75rem";
+	readonly "font-size-title-2": "1.375rem";
+	readonly "font-size-title-3": "1.25rem";
+	readonly "font-size-headline": "1.0625rem";
+	readonly "font-size-body": "1.0625rem";
+	readonly "font-size-callout": "1rem";
+	readonly "font-size-subhead": "0.9375rem";
+	readonly "font-size-footnote": "0.8125rem";
+	readonly "font-size-caption": "0.75rem";
+	readonly "line-height-tight": "1.2";
+	readonly "line-height-base": "1.47";
+	readonly "line-height-relaxed": "1.5";
+	readonly "font-weight-regular": "400";
+	readonly "font-weight-medium": "500";
+	readonly "font-weight-semibold": "600";
+	readonly "font-weight-bold": "700";
+	readonly "letter-spacing-tight": "-0.024em";
+	readonly "letter-spacing-normal": "0";
+	readonly "letter-spacing-wide": "0.016em";
+	readonly "space-1": "0.25rem";
+	readonly "space-2": "0.5rem";
+	readonly "space-3": "0.75rem";
+	readonly "space-4": "1rem";
+	readonly "space-5": "1.25rem";
+	readonly "space-6": "1.5rem";
+	readonly "space-8": "2rem";
+	readonly "space-9": "2.1875rem";
+	readonly "space-10": "2.5rem";
+	readonly "radius-sm": "6px";
+	readonly "radius-md": "8px";
+	readonly "radius-lg": "12px";
+	readonly "radius-xl": "16px";
+	readonly "radius-full": "9999px";
+	readonly "border-thin": "0.5px";
+	readonly "border-base": "1px";
+	readonly "tap-target-min": "44px";
+	readonly "animation-duration": "0.15s";
+	readonly "animation-easing": "ease";
+	readonly "z-base": "0";
+	readonly "z-dropdown": "100";
+	readonly "z-sticky": "200";
+	readonly "z-modal": "300";
+	readonly "z-popover": "400";
+	readonly "z-tooltip": "500";
+};
+
+/** Color tokens of every theme */
+export declare const themes: {
+	readonly "light": {
+		readonly "background-body": "#ffffff";
+		readonly "background": "#f5f5f7";
+		readonly "background-alt": "#ffffff";
+		readonly "text-main": "#1d1d1f";
+		readonly "text-bright": "#000000";
+		readonly "text-muted": "#86868b";
+		readonly "links": "#007aff";
+		readonly "focus": "rgba(0, 122, 255, 0.4)";
+		readonly "selection": "rgba(0, 122, 255, 0.2)";
+		readonly "border": "#d2d2d7";
+		readonly "code": "#1d1d1f";
+		readonly "code-bg": "#f5f5f7";
+		readonly "highlight": "rgba(255, 214, 10, 0.5)";
+		readonly "button-base": "#007aff";
+		readonly "button-hover": "#0051d5";
+		readonly "button-text": "#ffffff";
+		readonly "form-placeholder": "#86868b";
+		readonly "form-text": "#1d1d1f";
+		readonly "slider-thumb": "#ffffff";
+		readonly "scrollbar-thumb": "#d2d2d7";
+		readonly "scrollbar-thumb-hover": "#86868b";
+		readonly "success": "#34c759";
+		readonly "warning": "#ff9500";
+		readonly "error": "#ff3b30";
+		readonly "variable": "#34c759";
+		readonly "select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%231d1d1f'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")";
+		readonly "print-bg": "#ffffff";
+		readonly "print-text": "#000000";
+		readonly "print-border": "#000000";
+		readonly "print-alt-bg": "#f2f2f2";
+		readonly "print-link": "#0000ff";
+	};
+	readonly "dark": {
+		readonly "background-body": "#000000";
+		readonly "background": "#1c1c1e";
+		readonly "background-alt": "#2c2c2e";
+		readonly "text-main": "#f5f5f7";
+		readonly "text-bright": "#ffffff";
+		readonly "text-muted": "#8e8e93";
+		readonly "links": "#0a84ff";
+		readonly "focus": "rgba(10, 132, 255, 0.5)";
+		readonly "selection": "rgba(10, 132, 255, 0.3)";
+		readonly "border": "#38383a";
+		readonly "code": "#f5f5f7";
+		readonly "code-bg": "#1c1c1e";
+		readonly "highlight": "rgba(255, 214, 10, 0.4)";
+		readonly "button-base": "#0a84ff";
+		readonly "button-hover": "#409cff";
+		readonly "button-text": "#ffffff";
+		readonly "form-placeholder": "#8e8e93";
+		readonly "form-text": "#f5f5f7";
+		readonly "slider-thumb": "#ffffff";
+		readonly "scrollbar-thumb": "#48484a";
+		readonly "scrollbar-thumb-hover": "#636366";
+		readonly "success": "#30d158";
+		readonly "warning": "#ff9f0a";
+		readonly "error": "#ff453a";
+		readonly "variable": "#30d158";
+		readonly "select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23f5f5f7'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")";
+		readonly "print-bg": "#ffffff";
+		readonly "print-text": "#000000";
+		readonly "print-border": "#000000";
+		readonly "print-alt-bg": "#f2f2f2";
+		readonly "print-link": "#0000ff";
+	};
+	readonly "high-contrast": {
+		readonly "background-body": "#ffffff";
+		readonly "background": "#ffffff";
+		readonly "background-alt": "#f2f2f2";
+		readonly "text-main": "#000000";
+		readonly "text-bright": "#000000";
+		readonly "text-muted": "#3a3a3c";
+		readonly "links": "#0040dd";
+		readonly "focus": "rgba(0, 64, 221, 0.6)";
+		readonly "selection": "rgba(0, 64, 221, 0.25)";
+		readonly "border": "#000000";
+		readonly "code": "#000000";
+		readonly "code-bg": "#f2f2f2";
+		readonly "highlight": "rgba(255, 214, 10, 0.8)";
+		readonly "button-base": "#0040dd";
+		readonly "button-hover": "#002b99";
+		readonly "button-text": "#ffffff";
+		readonly "form-placeholder": "#3a3a3c";
+		readonly "form-text": "#000000";
+		readonly "slider-thumb": "#ffffff";
+		readonly "scrollbar-thumb": "#3a3a3c";
+		readonly "scrollbar-thumb-hover": "#000000";
+		readonly "success": "#248a3d";
+		readonly "warning": "#c93400";
+		readonly "error": "#d70015";
+		readonly "variable": "#248a3d";
+		readonly "select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23000000'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")";
+		readonly "print-bg": "#ffffff";
+		readonly "print-text": "#000000";
+		readonly "print-border": "#000000";
+		readonly "print-alt-bg": "#f2f2f2";
+		readonly "print-link": "#0000ff";
+	};
+	readonly "sepia": {
+		readonly "background-body": "#fbf4e6";
+		readonly "background": "#f4ecd8";
+		readonly "background-alt": "#fbf6ea";
+		readonly "text-main": "#433422";
+		readonly "text-bright": "#2b2116";
+		readonly "text-muted": "#6f5c47";
+		readonly "links": "#8a3f12";
+		readonly "focus": "rgba(138, 63, 18, 0.35)";
+		readonly "selection": "rgba(138, 63, 18, 0.2)";
+		readonly "border": "#dccfb4";
+		readonly "code": "#433422";
+		readonly "code-bg": "#ede3cc";
+		readonly "highlight": "rgba(230, 180, 60, 0.45)";
+		readonly "button-base": "#8a3f12";
+		readonly "button-hover": "#6e320e";
+		readonly "button-text": "#fffaf0";
+		readonly "form-placeholder": "#6f5c47";
+		readonly "form-text": "#433422";
+		readonly "slider-thumb": "#fffaf0";
+		readonly "scrollbar-thumb": "#d3c4a5";
+		readonly "scrollbar-thumb-hover": "#a89373";
+		readonly "success": "#4d7c2a";
+		readonly "warning": "#b86e00";
+		readonly "error": "#b3261e";
+		readonly "variable": "#4d7c2a";
+		readonly "select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23433422'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")";
+		readonly "print-bg": "#ffffff";
+		readonly "print-text": "#000000";
+		readonly "print-border": "#000000";
+		readonly "print-alt-bg": "#f2f2f2";
+		readonly "print-link": "#0000ff";
+	};
+};
+
+/** var() reference for a token, with an optional fallback */
+export declare function cssVar<N extends TokenName>(name: N): `var(--${N})`;
+export declare function cssVar<N extends TokenName>(
+	name: N,
+	fallback: string,
+): `var(--${N}, ${string})`;
+
+/** var() references for every token, e.g. vars["space-4"] → "var(--space-4)" */
+export declare const vars: { readonly [N in TokenName]: `var(--${N})` };
@@ -0,0 +1,203 @@
+/**
+ * juice.css design tokens
+ * Auto-generated from src/lib/tokens.ts
+ * DO NOT EDIT DIRECTLY - regenerate with: bun run build
+ */
+
+/** Design tokens shared by every theme */
+export const tokens = {
+	"font-size-base": "1rem",
+	"font-size-large-title": "2.125rem",
+	"font-size-title-1": "1.75rem",
+	"font-size-title-2": "1.375rem",
+	"font-size-title-3": "1.25rem",
+	"font-size-headline": "1.0625rem",
+	"font-size-body": "1.0625rem",
+	"font-size-callout": "1rem",
+	"font-size-subhead": "0.9375rem",
+	"font-size-footnote": "0.8125rem",
+	"font-size-caption": "0.75rem",
+	"line-height-tight": "1.2",
+	"line-height-base": "1.47",
+	"line-height-relaxed": "1.5",
+	"font-weight-regular": "400",
+	"font-weight-medium": "500",
+	"font-weight-semibold": "600",
+	"font-weight-bold": "700",
+	"letter-spacing-tight": "-0.024em",
+	"letter-spacing-normal": "0",
+	"letter-spacing-wide": "0.016em",
+	"space-1": "0.25rem",
+	"space-2": "0.5rem",
+	"space-3": "0.75rem",
+	"space-4": "1rem",
+	"space-5": "1.25rem",
+	"space-6": "1.5rem",
+	"space-8": "2rem",
+	"space-9": "2.1875rem",
+	"space-10": "2.5rem",
+	"radius-sm": "6px",
+	"radius-md": "8px",
+	"radius-lg": "12px",
+	"radius-xl": "16px",
+	"radius-full": "9999px",
+	"border-thin": "0.5px",
+	"border-base": "1px",
+	"tap-target-min": "44px",
+	"animation-duration": "0.15s",
+	"animation-easing": "ease",
+	"z-base": "0",
+	"z-dropdown": "100",
+	"z-sticky": "200",
+	"z-modal": "300",
+	"z-popover": "400",
+	"z-tooltip": "500"
+};
+
+/** Color tokens of every theme */
+export const themes = {
+	"light": {
+		"background-body": "#ffffff",
+		"background": "#f5f5f7",
+		"background-alt": "#ffffff",
+		"text-main": "#1d1d1f",
+		"text-bright": "#000000",
+		"text-muted": "#86868b",
+		"links": "#007aff",
+		"focus": "rgba(0, 122, 255, 0.4)",
+		"selection": "rgba(0, 122, 255, 0.2)",
+		"border": "#d2d2d7",
+		"code": "#1d1d1f",
+		"code-bg": "#f5f5f7",
+		"highlight": "rgba(255, 214, 10, 0.5)",
+		"button-base": "#007aff",
+		"button-hover": "#0051d5",
+		"button-text": "#ffffff",
+		"form-placeholder": "#86868b",
+		"form-text": "#1d1d1f",
+		"slider-thumb": "#ffffff",
+		"scrollbar-thumb": "#d2d2d7",
+		"scrollbar-thumb-hover": "#86868b",
+		"success": "#34c759",
+		"warning": "#ff9500",
+		"error": "#ff3b30",
+		"variable": "#34c759",
+		"select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%231d1d1f'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+		"print-bg": "#ffffff",
+		"print-text": "#000000",
+		"print-border": "#000000",
+		"print-alt-bg": "#f2f2f2",
+		"print-link": "#0000ff"
+	},
+	"dark": {
+		"background-body": "#000000",
+		"background": "#1c1c1e",
+		"background-alt": "#2c2c2e",
+		"text-main": "#f5f5f7",
+		"text-bright": "#ffffff",
+		"text-muted": "#8e8e93",
+		"links": "#0a84ff",
+		"focus": "rgba(10, 132, 255, 0.5)",
+		"selection": "rgba(10, 132, 255, 0.3)",
+		"border": "#38383a",
+		"code": "#f5f5f7",
+		"code-bg": "#1c1c1e",
+		"highlight": "rgba(255, 214, 10, 0.4)",
+		"button-base": "#0a84ff",
+		"button-hover": "#409cff",
+		"button-text": "#ffffff",
+		"form-placeholder": "#8e8e93",
+		"form-text": "#f5f5f7",
+		"slider-thumb": "#ffffff",
+		"scrollbar-thumb": "#48484a",
+		"scrollbar-thumb-hover": "#636366",
+		"success": "#30d158",
+		"warning": "#ff9f0a",
+		"error": "#ff453a",
+		"variable": "#30d158",
+		"select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23f5f5f7'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+		"print-bg": "#ffffff",
+		"print-text": "#000000",
+		"print-border": "#000000",
+		"print-alt-bg": "#f2f2f2",
+		"print-link": "#0000ff"
+	},
+	"high-contrast": {
+		"background-body": "#ffffff",
+		"background": "#ffffff",
+		"background-alt": "#f2f2f2",
+		"text-main": "#000000",
+		"text-bright": "#000000",
+		"text-muted": "#3a3a3c",
+		"links": "#0040dd",
+		"focus": "rgba(0, 64, 221, 0.6)",
+		"selection": "rgba(0, 64, 221, 0.25)",
+		"border": "#000000",
+		"code": "#000000",
+		"code-bg": "#f2f2f2",
+		"highlight": "rgba(255, 214, 10, 0.8)",
+		"button-base": "#0040dd",
+		"button-hover": "#002b99",
+		"button-text": "#ffffff",
+		"form-placeholder": "#3a3a3c",
+		"form-text": "#000000",
+		"slider-thumb": "#ffffff",
+		"scrollbar-thumb": "#3a3a3c",
+		"scrollbar-thumb-hover": "#000000",
+		"success": "#248a3d",
+		"warning": "#c93400",
+		"error": "#d70015",
+		"variable": "#248a3d",
+		"select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23000000'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+		"print-bg": "#ffffff",
+		"print-text": "#000000",
+		"print-border": "#000000",
+		"print-alt-bg": "#f2f2f2",
+		"print-link": "#0000ff"
+	},
+	"sepia": {
+		"background-body": "#fbf4e6",
+		"background": "#f4ecd8",
+		"background-alt": "#fbf6ea",
+		"text-main": "#433422",
+		"text-bright": "#2b2116",
+		"text-muted": "#6f5c47",
+		"links": "#8a3f12",
+		"focus": "rgba(138, 63, 18, 0.35)",
+		"selection": "rgba(138, 63, 18, 0.2)",
+		"border": "#dccfb4",
+		"code": "#433422",
+		"code-bg": "#ede3cc",
+		"highlight": "rgba(230, 180, 60, 0.45)",
+		"button-base": "#8a3f12",
+		"button-hover": "#6e320e",
+		"button-text": "#fffaf0",
+		"form-placeholder": "#6f5c47",
+		"form-text": "#433422",
+		"slider-thumb": "#fffaf0",
+		"scrollbar-thumb": "#d3c4a5",
+		"scrollbar-thumb-hover": "#a89373",
+		"success": "#4d7c2a",
+		"warning": "#b86e00",
+		"error": "#b3261e",
+		"variable": "#4d7c2a",
+		"select-arrow": "url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23433422'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+		"print-bg": "#ffffff",
+		"print-text": "#000000",
+		"print-border": "#000000",
+		"print-alt-bg": "#f2f2f2",
+		"print-link": "#0000ff"
+	}
+};
+
+/** var() reference for a token, with an optional fallback */
+export const cssVar = (name, fallback) =>
+	fallback === undefined ? `var(--${name})` : `var(--${name}, ${fallback})`;
+
+/** var() references for every token, e.g. vars["space-4"] → "var(--space-4)" */
+export const vars = Object.fromEntries(
+	[...Object.keys(tokens), ...Object.keys(themes.light)].map((name) => [
+		name,
+		cssVar(name),
+	]),
+);
@@ -5,142 +5,468 @@
  * Leverages Bun's native APIs for optimal performance
  *
  * Generates two output directories:
- * - out/  : CSS distribution files only (committed to GitHub for CDN/direct usage)
+ * - out/  : CSS distribution files plus optional scripts (committed to GitHub for CDN/direct usage)
  * - dist/ : Complete demo site (gitignored, for Cloudflare deployment)
+ *
+ * Custom bundles - only some modules of base.css (plus their dependencies),
+ * some theme variants, or a different scope for juice-scoped.css:
+ *   bun run build --include typography,code --themes auto,scoped --scope "[data-juice]" [--out dir]
+ *
+ * Can also be used programmatically:
+ *   import { buildJuice } from "./scripts/build";
+ *   const { outputs } = await buildJuice({ outDir: "public/css", themes: ["auto"] });
  */
 
+import { basename, join } from "node:path";
+import { parseArgs } from "node:util";
 import { build, file, write } from "bun";
+import { checkContrast } from "./contrast-audit";
+import { buildDTCG } from "./dtcg";
+import { type MinifyStats, minifyWithStats } from "./minify-css";
+import { assembleBase, resolveModules } from "./modules";
+import { DEFAULT_SCOPE, scopeCSS } from "./scope";
+import {
+	discoverThemes,
+	readThemes,
+	THEME_FILE,
+	type ThemeFiles,
+	themeLabel,
+} from "./theme-files";
+import { buildTokens } from "./tokens";
 
-console.log("📦 Building juice.css...");
+/**
+ * Theme variants that can be emitted as standalone bundles
+ * "auto", "scoped" (auto confined under a selector) plus any discovered or configured theme name
+ */
+export type ThemeVariant = "auto" | "scoped" | "light" | "dark" | (string & {});
 
-// Clean and create directories
-await Bun.$`rm -rf dist && mkdir -p out dist`;
+export interface BuildOptions {
+	/** Light theme variables file (default: src/lib/variables-light.css) */
+	lightVariables?: string;
+	/** Dark theme variables file (default: src/lib/variables-dark.css) */
+	darkVariables?: string;
+	/** Theme name → variables file (default: every src/lib/variables-*.css) */
+	themeFiles?: ThemeFiles;
+	/** Base element styles file (default: src/lib/base.css) */
+	base?: string;
+	/** Only bundle these modules of base.css, plus their dependencies (default: all) */
+	include?: string[];
+	/** Directory the bundles are written to (default: out) */
+	outDir?: string;
+	/** Theme variants to emit (default: auto, every theme and scoped) */
+	themes?: ThemeVariant[];
+	/** Container selector of the scoped bundle (default: .juice) */
+	scope?: string;
+	/** Also emit a .min.css file for every variant (default: true) */
+	minify?: boolean;
+	/** Write the bundles to disk, or only return them (default: true) */
+	write?: boolean;
+}
 
-// Read package.json for version
-const pkg = await file("package.json").json();
-const version = pkg.version;
-console.log(`📌 Version: ${version}`);
+export interface BuildOutput {
+	theme: ThemeVariant;
+	minified: boolean;
+	path: string;
+	css: string;
+	/** Byte savings, only present on minified outputs */
+	stats?: MinifyStats;
+}
 
-// Read library source files using Bun.file (faster than fs.readFileSync)
-const [lightVars, darkVars, base] = await Promise.all([
-	file("src/lib/variables-light.css").text(),
-	file("src/lib/variables-dark.css").text(),
-	file("src/lib/base.css").text(),
-]);
+export interface BuildResult {
+	outputs: BuildOutput[];
+}
 
 // Indent content for nested selectors
-const indent = (content: string) =>
+export const indent = (content: string) =>
 	content
 		.split("\n")
 		.map((line) => (line ? `\t${line}` : line))
 		.join("\n");
 
 // Convert :root to [data-theme="X"] selector
-const toDataTheme = (content: string, theme: "light" | "dark") =>
+export const toDataTheme = (content: string, theme: string) =>
 	content.replace(/:root\s*\{/, `[data-theme="${theme}"] {`);
 
-// Generate theme-overrides.css content
-const themeOverridesCSS = `/**
+// [data-theme] block for every theme, in theme order
+const dataThemeBlocks = (themes: Record<string, string>, comments = false) =>
+	Object.entries(themes)
+		.map(
+			([name, vars]) =>
+				`${comments ? `/* Force ${name} theme */\n` : ""}${toDataTheme(vars, name)}`,
+		)
+		.join("\n\n");
+
+/**
+ * Generate the [data-theme] override stylesheet used by the dev server
+ */
+export const themeOverrides = (themes: Record<string, string>) =>
+	`/**
  * Theme overrides for manual theme switching via data-theme attribute
- * Auto-generated from variables-light.css and variables-dark.css
+ * Auto-generated from src/lib/variables-*.css
  * DO NOT EDIT DIRECTLY - regenerate with: bun run build
  */
 
-/* Force light theme */
-${toDataTheme(lightVars, "light")}
+${dataThemeBlocks(themes, true)}
+`;
 
-/* Force dark theme */
-${toDataTheme(darkVars, "dark")}
+/**
+ * The demo page laid out right-to-left - the fixture for the RTL tests
+ */
+export const rtlPage = (html: string) =>
+	html.replace(
+		/<html\b([^>]*)>/,
+		(_, attributes: string) =>
+			`<html${attributes.replace(/\s+dir="[^"]*"/, "")} dir="rtl">`,
+	);
+
+const escapeAttribute = (value: string) =>
+	value
+		.replaceAll("&", "&amp;")
+		.replaceAll('"', "&quot;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;");
+
+/**
+ * Inline <script> for the end of <head> - applies the saved theme before first
+ * paint, from the minified out/juice-theme-init.min.js
+ */
+export const themeInitTag = (script: string, storageKey?: string) =>
+	`<script${storageKey ? ` data-storage-key="${escapeAttribute(storageKey)}"` : ""}>${script.trim().replaceAll("</", "<\\/")}</script>`;
+
+/**
+ * Insert the theme init script at the end of <head>
+ */
+export const withThemeInit = (html: string, tag: string) =>
+	html.replace("</head>", `${tag}</head>`);
+
+/**
+ * Generate the theme list module the demo theme switcher reads
+ */
+export const themeList = (names: string[]) =>
+	`/**
+ * Themes discovered from src/lib/variables-*.css
+ * DO NOT EDIT DIRECTLY - regenerate with: bun run build
+ */
+
+export const THEMES = [
+${names.map((name) => `\t{ name: "${name}", label: "${themeLabel(name)}" },`).join("\n")}
+] as const;
 `;
 
-// Write theme-overrides.css to src/demo/ for dev mode
-await write("src/demo/theme-overrides.css", themeOverridesCSS);
+/**
+ * Assemble the bundle for a single theme variant
+ */
+const bundle = (
+	theme: ThemeVariant,
+	themes: Record<string, string>,
+	base: string,
+	scope: string,
+): string => {
+	const { light, dark } = themes;
+	if (light === undefined) {
+		throw new Error("A light theme is required - it holds the design tokens");
+	}
+
+	// Scoped - auto, but confined under the scope selector
+	if (theme === "scoped") {
+		return scopeCSS(bundle("auto", themes, base, scope), scope);
+	}
+
+	// Auto - switches between light/dark, with data-theme overrides
+	if (theme === "auto") {
+		const darkMode =
+			dark === undefined
+				? ""
+				: `@media (prefers-color-scheme: dark) {\n${indent(dark)}\n}\n\n`;
+		return `${light}
+
+${darkMode}/* Manual theme overrides via data-theme attribute */
+${dataThemeBlocks(themes)}
 
-// Build juice.css (auto - switches between light/dark, with data-theme overrides)
-const autoCSS = `${lightVars}
+${base}`;
+	}
+
+	const vars = themes[theme];
+	if (vars === undefined) {
+		throw new Error(`Unknown theme "${theme}"`);
+	}
+
+	if (theme === "light" || theme === "dark") {
+		return `${vars}\n\n${base}`;
+	}
 
-@media (prefers-color-scheme: dark) {
-${indent(darkVars)}
+	// Other themes only override colors - inherit the light design tokens
+	return `${light}\n\n${vars}\n\n${base}`;
+};
+
+const bundleName = (theme: ThemeVariant, minified: boolean) =>
+	`${theme === "auto" ? "juice" : `juice-${theme}`}${minified ? ".min" : ""}.css`;
+
+/**
+ * Build the juice.css bundles
+ * Returns every generated stylesheet along with the path it belongs at
+ */
+export async function buildJuice(
+	options: BuildOptions = {},
+): Promise<BuildResult> {
+	const {
+		base: basePath = "src/lib/base.css",
+		outDir = "out",
+		scope = DEFAULT_SCOPE,
+		minify = true,
+		write: shouldWrite = true,
+	} = options;
+
+	const themeFiles: ThemeFiles = {
+		...(options.themeFiles ?? (await discoverThemes())),
+		...(options.lightVariables && { light: options.lightVariables }),
+		...(options.darkVariables && { dark: options.darkVariables }),
+	};
+	const themes = options.themes ?? [
+		"auto",
+		...Object.keys(themeFiles),
+		"scoped",
+	];
+
+	// Read library source files using Bun.file (faster than fs.readFileSync)
+	const [themeVars, base] = await Promise.all([
+		readThemes(themeFiles),
+		assembleBase(basePath, options.include),
+	]);
+
+	const outputs: BuildOutput[] = [];
+	for (const theme of themes) {
+		const css = bundle(theme, themeVars, base, scope);
+		outputs.push({
+			theme,
+			minified: false,
+			path: join(outDir, bundleName(theme, false)),
+			css,
+		});
+		if (minify) {
+			const minified = minifyWithStats(css);
+			outputs.push({
+				theme,
+				minified: true,
+				path: join(outDir, bundleName(theme, true)),
+				css: minified.css,
+				stats: minified.stats,
+			});
+		}
+	}
+
+	if (shouldWrite) {
+		await Promise.all(outputs.map((output) => write(output.path, output.css)));
+	}
+
+	return { outputs };
 }
 
-/* Manual theme overrides via data-theme attribute */
-${toDataTheme(lightVars, "light")}
+export interface Script {
+	/** Side-effect entry bundled as a browser IIFE - out/<name>.js */
+	entrypoint: string;
+	/** Entry with exports, also bundled as an ES module - out/<name>.mjs */
+	module?: string;
+}
 
-${toDataTheme(darkVars, "dark")}
+/** Progressive-enhancement scripts shipped next to the CSS, by output name */
+export const SCRIPTS: Record<string, Script> = {
+	"juice-code-blocks": { entrypoint: "src/lib/code-blocks.ts" },
+	"juice-copy-code": { entrypoint: "src/lib/copy-code.ts" },
+	"juice-stack-tables": { entrypoint: "src/lib/stack-tables.ts" },
+	"juice-theme-init": { entrypoint: "src/lib/theme-init.ts" },
+	"juice-theme-switcher": {
+		entrypoint: "src/lib/theme-switcher.global.ts",
+		module: "src/lib/theme-switcher.ts",
+	},
+};
 
-${base}`;
+/**
+ * Bundle SCRIPTS as browser IIFEs and ES modules, unminified and .min
+ */
+export async function buildScripts(outDir = "out"): Promise<string[]> {
+	const bundles = Object.entries(SCRIPTS).flatMap(([name, script]) => [
+		{ name, entrypoint: script.entrypoint, format: "iife" as const },
+		...(script.module
+			? [{ name, entrypoint: script.module, format: "esm" as const }]
+			: []),
+	]);
+	const paths: string[] = [];
+
+	for (const { name, entrypoint, format } of bundles) {
+		for (const minify of [false, true]) {
+			const result = await build({
+				entrypoints: [entrypoint],
+				target: "browser",
+				format,
+				minify,
+			});
+			if (!result.success) {
+				throw new AggregateError(result.logs, `Failed to bundle ${entrypoint}`);
+			}
+
+			const extension = format === "esm" ? "mjs" : "js";
+			const path = join(outDir, `${name}${minify ? ".min" : ""}.${extension}`);
+			await write(path, await result.outputs[0]!.text());
+			paths.push(path);
+		}
+	}
+
+	return paths;
+}
+
+const formatSavings = ({ minifiedBytes, savedBytes, savings }: MinifyStats) =>
+	`${(minifiedBytes / 1024).toFixed(1)} KB, saved ${(savedBytes / 1024).toFixed(1)} KB / ${(savings * 100).toFixed(0)}%`;
+
+/**
+ * CLI entrypoint - builds out/, dist/ and the demo site
+ * With --include, --themes or --scope, only builds a custom bundle
+ */
+export async function buildCLI(args: string[] = process.argv.slice(2)) {
+	const { values } = parseArgs({
+		args,
+		options: {
+			include: { type: "string" },
+			themes: { type: "string" },
+			scope: { type: "string" },
+			out: { type: "string", default: "out/custom" },
+		},
+	});
+
+	if (values.include || values.themes || values.scope) {
+		const include = values.include?.split(",").map((name) => name.trim());
+		try {
+			console.log(
+				`📦 Building custom juice.css: ${include ? resolveModules(include).join(", ") : "all modules"}`,
+			);
+			const { outputs } = await buildJuice({
+				outDir: values.out,
+				include,
+				themes: values.themes?.split(","),
+				scope: values.scope,
+			});
+			for (const output of outputs) {
+				console.log(
+					`   • ${output.path}${output.stats ? ` (${formatSavings(output.stats)})` : ""}`,
+				);
+			}
+		} catch (error) {
+			console.error(`❌ ${(error as Error).message}`);
+			process.exit(1);
+		}
+		return;
+	}
+
+	console.log("📦 Building juice.css...");
+
+	// Generate the variables files, tokens.json and tokens.js from src/lib/tokens.ts
+	const { files: tokenFiles } = await buildTokens({ write: false });
 
-// Build juice-light.css (always light)
-const lightCSS = `${lightVars}\n\n${base}`;
-
-// Build juice-dark.css (always dark)
-const darkCSS = `${darkVars}\n\n${base}`;
-
-// Simple CSS minifier - removes comments, extra whitespace
-const minifyCSS = (css: string): string => {
-	return (
-		css
-			// Remove comments
-			.replace(/\/\*[\s\S]*?\*\//g, "")
-			// Remove newlines and extra spaces
-			.replace(/\s+/g, " ")
-			// Remove space around special chars
-			.replace(/\s*([{}:;,>~+])\s*/g, "$1")
-			// Remove trailing semicolons before }
-			.replace(/;}/g, "}")
-			// Remove leading/trailing whitespace
-			.trim()
+	// Audit color contrast before anything is written - warns below AA, fails on regressions
+	// Generated variables files replace their copies on disk, other themes are read as is
+	const generatedThemes = Object.fromEntries(
+		Object.entries(tokenFiles).flatMap(([path, css]) => {
+			const name = basename(path).match(THEME_FILE)?.[1];
+			return name ? [[name, css]] : [];
+		}),
 	);
-};
+	const auditedThemes = {
+		...(await readThemes(await discoverThemes())),
+		...generatedThemes,
+	};
+	if (!(await checkContrast(auditedThemes))) {
+		console.error("❌ Build failed!");
+		process.exit(1);
+	}
+
+	// Clean and create directories
+	await Bun.$`rm -rf dist && mkdir -p out dist`;
+
+	// Read package.json for version
+	const pkg = await file("package.json").json();
+	const version = pkg.version;
+	console.log(`📌 Version: ${version}`);
+
+	// Write the generated token files
+	// plus the DTCG .tokens.json exports for Tokens Studio / Style Dictionary
+	await Promise.all(
+		Object.entries(tokenFiles).map(([path, contents]) => write(path, contents)),
+	);
+	const dtcgFiles = await buildDTCG();
+
+	// Discover themes from src/lib/variables-*.css
+	const themeFiles = await discoverThemes();
+	console.log(`🎨 Themes: ${Object.keys(themeFiles).join(", ")}`);
+
+	// Write theme-overrides.css and the theme list to src/demo/ for dev mode
+	const themeVars = await readThemes(themeFiles);
+	await Promise.all([
+		write("src/demo/theme-overrides.css", themeOverrides(themeVars)),
+		write("src/demo/theme-list.ts", themeList(Object.keys(themeFiles))),
+	]);
 
-// Minify CSS files
-const autoCSSMin = minifyCSS(autoCSS);
-const lightCSSMin = minifyCSS(lightCSS);
-const darkCSSMin = minifyCSS(darkCSS);
-
-// Write CSS files to both directories (parallel)
-await Promise.all([
-	// out/ - unminified
-	write("out/juice.css", autoCSS),
-	write("out/juice-light.css", lightCSS),
-	write("out/juice-dark.css", darkCSS),
-	// out/ - minified
-	write("out/juice.min.css", autoCSSMin),
-	write("out/juice-light.min.css", lightCSSMin),
-	write("out/juice-dark.min.css", darkCSSMin),
-	// dist/ (for Cloudflare)
-	write("dist/juice.css", autoCSS),
-	write("dist/juice-light.css", lightCSS),
-	write("dist/juice-dark.css", darkCSS),
-]);
-
-// Build HTML for dist/ - Bun automatically bundles all <script> and <link> tags
-const distHTMLResult = await build({
-	entrypoints: ["src/demo/index.html"],
-	outdir: "dist",
-	minify: true,
-});
-
-if (!distHTMLResult.success) {
-	console.error("❌ Build failed!");
-	for (const log of distHTMLResult.logs) {
-		console.error(log);
+	// Write CSS files to both directories (parallel)
+	// out/ gets unminified + minified, dist/ (for Cloudflare) only unminified
+	const [{ outputs }] = await Promise.all([
+		buildJuice({ outDir: "out", themeFiles }),
+		buildJuice({ outDir: "dist", themeFiles, minify: false }),
+	]);
+
+	const scriptFiles = await buildScripts("out");
+	const themeInit = themeInitTag(
+		await file("out/juice-theme-init.min.js").text(),
+	);
+	await write("out/juice-theme-init.html", `${themeInit}\n`);
+
+	// Build HTML for dist/ - Bun automatically bundles all <script> and <link> tags
+	const distHTMLResult = await build({
+		entrypoints: ["src/demo/index.html"],
+		outdir: "dist",
+		minify: true,
+	});
+
+	if (!distHTMLResult.success) {
+		console.error("❌ Build failed!");
+		for (const log of distHTMLResult.logs) {
+			console.error(log);
+		}
+		process.exit(1);
 	}
-	process.exit(1);
+
+	// Inject version into dist/index.html (replace {{VERSION}} placeholders)
+	// and inline the theme init script, so saved themes apply before first paint
+	const distHTML = await file("dist/index.html").text();
+	const versionedHTML = withThemeInit(
+		distHTML.replaceAll("{{VERSION}}", version),
+		themeInit,
+	);
+	await Promise.all([
+		write("dist/index.html", versionedHTML),
+		write("dist/rtl.html", rtlPage(versionedHTML)),
+	]);
+
+	console.log("✅ Build complete!");
+	console.log("\n📦 Distribution files (out/) - CSS only for GitHub/CDN:");
+	for (const output of outputs) {
+		const label = output.theme === "auto" ? " (auto light/dark)" : "";
+		console.log(
+			`   • ${output.path}${output.stats ? ` (minified, ${formatSavings(output.stats)})` : label}`,
+		);
+	}
+	console.log("\n📜 Scripts (progressive enhancement):");
+	for (const path of scriptFiles) {
+		console.log(`   • ${path}`);
+	}
+	console.log("   • out/juice-theme-init.html (inline <head> snippet)");
+	console.log("\n🧩 Design tokens (from src/lib/tokens.ts):");
+	for (const path of [...Object.keys(tokenFiles), ...dtcgFiles]) {
+		console.log(`   • ${path}`);
+	}
+	console.log("\n🌐 Demo site files (dist/) - bundled by Bun:");
+	console.log("   • dist/index.html + JS/CSS assets (auto-hashed)");
+	console.log("   • dist/rtl.html (right-to-left test page)");
 }
 
-// Inject version into dist/index.html (replace {{VERSION}} placeholders)
-const distHTML = await file("dist/index.html").text();
-const versionedHTML = distHTML.replaceAll("{{VERSION}}", version);
-await write("dist/index.html", versionedHTML);
-
-console.log("✅ Build complete!");
-console.log("\n📦 Distribution files (out/) - CSS only for GitHub/CDN:");
-console.log("   • out/juice.css (auto light/dark)");
-console.log("   • out/juice-light.css");
-console.log("   • out/juice-dark.css");
-console.log("   • out/juice.min.css (minified)");
-console.log("   • out/juice-light.min.css (minified)");
-console.log("   • out/juice-dark.min.css (minified)");
-console.log("\n🌐 Demo site files (dist/) - bundled by Bun:");
-console.log("   • dist/index.html + JS/CSS assets (auto-hashed)");
+if (import.meta.main) {
+	await buildCLI();
+}
@@ -0,0 +1,171 @@
+/**
+ * juice.css Color Utilities
+ * Minimal sRGB helpers shared by the build scripts
+ */
+
+export interface RGBA {
+	r: number;
+	g: number;
+	b: number;
+	a: number;
+}
+
+export interface HSL {
+	h: number;
+	s: number;
+	l: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(max, Math.max(min, value));
+
+/**
+ * Parse a hex (#rgb, #rrggbb, #rrggbbaa) or rgb()/rgba() color
+ * Returns undefined for anything else (keywords, var(), gradients...)
+ */
+export function parseColor(value: string): RGBA | undefined {
+	const color = value.trim().toLowerCase();
+
+	const hex = color.match(/^#([0-9a-f]{3,8})$/)?.[1];
+	if (hex && [3, 4, 6, 8].includes(hex.length)) {
+		const full =
+			hex.length <= 4
+				? hex
+						.split("")
+						.map((char) => char + char)
+						.join("")
+				: hex;
+		const channel = (i: number) => Number.parseInt(full.slice(i, i + 2), 16);
+		return {
+			r: channel(0),
+			g: channel(2),
+			b: channel(4),
+			a: full.length === 8 ? channel(6) / 255 : 1,
+		};
+	}
+
+	const rgb = color.match(/^rgba?\(([^)]+)\)$/)?.[1];
+	if (rgb) {
+		const parts = rgb
+			.split(/[\s,/]+/)
+			.filter(Boolean)
+			.map(Number);
+		const [r, g, b, a = 1] = parts;
+		if (
+			r === undefined ||
+			g === undefined ||
+			b === undefined ||
+			parts.some(Number.isNaN)
+		) {
+			return undefined;
+		}
+		return { r, g, b, a };
+	}
+
+	return undefined;
+}
+
+const toHexChannel = (value: number) =>
+	Math.round(clamp(value, 0, 255))
+		.toString(16)
+		.padStart(2, "0");
+
+/**
+ * Format as #rrggbb (alpha is dropped)
+ */
+export const toHex = ({ r, g, b }: RGBA) =>
+	`#${toHexChannel(r)}${toHexChannel(g)}${toHexChannel(b)}`;
+
+/**
+ * Format as rgba(r, g, b, a) - the notation the variables files use
+ */
+export const toRGBA = ({ r, g, b }: RGBA, alpha: number) =>
+	`rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+
+export function toHSL({ r, g, b }: RGBA): HSL {
+	const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+	const max = Math.max(rn, gn, bn);
+	const min = Math.min(rn, gn, bn);
+	const l = (max + min) / 2;
+	const d = max - min;
+
+	if (d === 0) return { h: 0, s: 0, l: l * 100 };
+
+	const s = d / (1 - Math.abs(2 * l - 1));
+	let h: number;
+	if (max === rn) h = ((gn - bn) / d) % 6;
+	else if (max === gn) h = (bn - rn) / d + 2;
+	else h = (rn - gn) / d + 4;
+
+	return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 };
+}
+
+export function fromHSL({ h, s, l }: HSL, a = 1): RGBA {
+	const sn = clamp(s, 0, 100) / 100;
+	const ln = clamp(l, 0, 100) / 100;
+	const c = (1 - Math.abs(2 * ln - 1)) * sn;
+	const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+	const m = ln - c / 2;
+
+	const [r, g, b] =
+		h < 60
+			? [c, x, 0]
+			: h < 120
+				? [x, c, 0]
+				: h < 180
+					? [0, c, x]
+					: h < 240
+						? [0, x, c]
+						: h < 300
+							? [x, 0, c]
+							: [c, 0, x];
+
+	return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255, a };
+}
+
+/**
+ * The hue, saturation and lightness shift that turns `from` into `to`
+ */
+export function hslShift(from: RGBA, to: RGBA): HSL {
+	const a = toHSL(from);
+	const b = toHSL(to);
+	// Shortest way round the hue circle
+	const h = ((b.h - a.h + 540) % 360) - 180;
+	return { h, s: b.s - a.s, l: b.l - a.l };
+}
+
+/**
+ * Apply an HSL shift, e.g. one measured with hslShift
+ */
+export const shiftHSL = (color: RGBA, shift: HSL): RGBA => {
+	const hsl = toHSL(color);
+	return fromHSL(
+		{
+			h: (hsl.h + shift.h + 360) % 360,
+			s: hsl.s + shift.s,
+			l: hsl.l + shift.l,
+		},
+		color.a,
+	);
+};
+
+/**
+ * WCAG 2.x relative luminance
+ */
+export function relativeLuminance({ r, g, b }: RGBA): number {
+	const linear = (channel: number) => {
+		const c = channel / 255;
+		return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+	};
+	return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+/**
+ * WCAG 2.x contrast ratio between two opaque colors (1-21)
+ */
+export function contrastRatio(a: RGBA, b: RGBA): number {
+	const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort(
+		(x, y) => y - x,
+	);
+	return (lighter! + 0.05) / (darker! + 0.05);
+}
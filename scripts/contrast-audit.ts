@@ -0,0 +1,343 @@
+#!/usr/bin/env bun
+
+/**
+ * juice.css Contrast Audit
+ * Checks the WCAG contrast of every color pair base.css actually renders
+ *
+ * Usage:
+ *   juice contrast            Print the report, exit 1 on regressions
+ *   juice contrast --update   Accept the current results as the new baseline
+ *
+ * Pairs below AA are reported as warnings (several stock Apple colors are
+ * borderline). A pair whose level drops below the committed baseline is a
+ * regression and fails the build.
+ */
+
+import { parseArgs } from "node:util";
+import { file, write } from "bun";
+import { contrastRatio, parseColor } from "./color";
+import { discoverThemes, readThemes, type ThemeFiles } from "./theme-files";
+
+export type Level = "AAA" | "AA" | "AA Large" | "Fail";
+
+export interface ContrastPair {
+	foreground: string;
+	background: string;
+	/** Where base.css renders this combination */
+	usage: string;
+}
+
+export interface PairResult extends ContrastPair {
+	foregroundValue: string;
+	backgroundValue: string;
+	ratio: number;
+	level: Level;
+}
+
+export interface ThemeAudit {
+	theme: string;
+	results: PairResult[];
+}
+
+/** Committed levels, keyed by theme then pair id */
+export type ContrastBaseline = Record<
+	string,
+	Record<string, { ratio: number; level: Level }>
+>;
+
+export interface Regression {
+	theme: string;
+	pair: string;
+	expected: Level;
+	actual: Level;
+	/** Ratio recorded in the baseline */
+	expectedRatio: number;
+	ratio: number;
+}
+
+export const BASELINE_PATH = "scripts/contrast-baseline.json";
+
+/**
+ * Foreground/background combinations used by base.css
+ */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+	{ foreground: "--text-main", background: "--background", usage: "body text" },
+	{
+		foreground: "--text-bright",
+		background: "--background",
+		usage: "headings, strong",
+	},
+	{
+		foreground: "--text-muted",
+		background: "--background",
+		usage: "blockquote, cite, figcaption, footer",
+	},
+	{ foreground: "--links", background: "--background", usage: "links" },
+	{
+		foreground: "--links",
+		background: "--background-body",
+		usage: "links on page background",
+	},
+	{
+		foreground: "--button-text",
+		background: "--button-base",
+		usage: "buttons",
+	},
+	{
+		foreground: "--button-text",
+		background: "--button-hover",
+		usage: "buttons (hover)",
+	},
+	{
+		foreground: "--form-text",
+		background: "--background-alt",
+		usage: "inputs, selects, textareas",
+	},
+	{
+		foreground: "--form-placeholder",
+		background: "--background-alt",
+		usage: "placeholders",
+	},
+	{
+		foreground: "--text-bright",
+		background: "--background-alt",
+		usage: "table headers",
+	},
+	{ foreground: "--code", background: "--code-bg", usage: "code" },
+	{
+		foreground: "--error",
+		background: "--background",
+		usage: "required field marker",
+	},
+];
+
+const LEVEL_ORDER: Level[] = ["Fail", "AA Large", "AA", "AAA"];
+
+/** How far a ratio may drop below the baseline within its level - rounding noise */
+export const RATIO_TOLERANCE = 0.05;
+
+export const pairId = ({ foreground, background }: ContrastPair) =>
+	`${foreground} on ${background}`;
+
+/**
+ * WCAG level for normal-size text
+ */
+export const levelFor = (ratio: number): Level =>
+	ratio >= 7 ? "AAA" : ratio >= 4.5 ? "AA" : ratio >= 3 ? "AA Large" : "Fail";
+
+/**
+ * Read the custom properties declared in a variables file
+ */
+export function parseVariables(css: string): Record<string, string> {
+	const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "");
+	const variables: Record<string, string> = {};
+	for (const [, name, value] of withoutComments.matchAll(
+		/(--[\w-]+)\s*:\s*([^;]+);/g,
+	)) {
+		variables[name!] = value!.trim();
+	}
+	return variables;
+}
+
+/**
+ * Audit every pair against one theme's resolved variables
+ */
+export function auditTheme(
+	theme: string,
+	variables: Record<string, string>,
+): ThemeAudit {
+	const results = CONTRAST_PAIRS.map((pair) => {
+		const foregroundValue = variables[pair.foreground];
+		const backgroundValue = variables[pair.background];
+		const foreground = foregroundValue && parseColor(foregroundValue);
+		const background = backgroundValue && parseColor(backgroundValue);
+
+		if (!foreground || !background) {
+			throw new Error(
+				`[${theme}] cannot resolve ${pairId(pair)} (${foregroundValue} / ${backgroundValue})`,
+			);
+		}
+
+		const ratio = Math.round(contrastRatio(foreground, background) * 100) / 100;
+		return {
+			...pair,
+			foregroundValue: foregroundValue!,
+			backgroundValue: backgroundValue!,
+			ratio,
+			level: levelFor(ratio),
+		};
+	});
+
+	return { theme, results };
+}
+
+/**
+ * Audit theme variables files by contents, keyed by theme name
+ * Themes inherit any token they don't override from light, like they do in the bundles
+ */
+export function auditThemes(themes: Record<string, string>): ThemeAudit[] {
+	const light = parseVariables(themes.light ?? "");
+
+	return Object.entries(themes).map(([theme, css]) =>
+		auditTheme(theme, { ...light, ...parseVariables(css) }),
+	);
+}
+
+/**
+ * Audit every theme (default: all discovered src/lib/variables-*.css)
+ */
+export async function auditContrast(
+	themeFiles?: ThemeFiles,
+): Promise<ThemeAudit[]> {
+	return auditThemes(await readThemes(themeFiles ?? (await discoverThemes())));
+}
+
+export const toBaseline = (audits: ThemeAudit[]): ContrastBaseline =>
+	Object.fromEntries(
+		audits.map(({ theme, results }) => [
+			theme,
+			Object.fromEntries(
+				results.map((result) => [
+					pairId(result),
+					{ ratio: result.ratio, level: result.level },
+				]),
+			),
+		]),
+	);
+
+/**
+ * Pairs whose level is worse than the baseline, or whose ratio dropped more
+ * than RATIO_TOLERANCE below it
+ */
+export function findRegressions(
+	audits: ThemeAudit[],
+	baseline: ContrastBaseline,
+): Regression[] {
+	const regressions: Regression[] = [];
+	for (const { theme, results } of audits) {
+		for (const result of results) {
+			const expected = baseline[theme]?.[pairId(result)];
+			if (
+				expected &&
+				(LEVEL_ORDER.indexOf(result.level) <
+					LEVEL_ORDER.indexOf(expected.level) ||
+					result.ratio < expected.ratio - RATIO_TOLERANCE)
+			) {
+				regressions.push({
+					theme,
+					pair: pairId(result),
+					expected: expected.level,
+					actual: result.level,
+					expectedRatio: expected.ratio,
+					ratio: result.ratio,
+				});
+			}
+		}
+	}
+	return regressions;
+}
+
+/**
+ * Human-readable report, one line per pair
+ */
+export function formatReport(audits: ThemeAudit[]): string {
+	const icon: Record<Level, string> = {
+		AAA: "✅",
+		AA: "✅",
+		"AA Large": "⚠️ ",
+		Fail: "❌",
+	};
+
+	return audits
+		.map(({ theme, results }) => {
+			const lines = results.map(
+				(result) =>
+					`   ${icon[result.level]} ${result.ratio.toFixed(2).padStart(5)}:1  ${result.level.padEnd(8)}  ${pairId(result)} (${result.usage})`,
+			);
+			return `${theme}:\n${lines.join("\n")}`;
+		})
+		.join("\n\n");
+}
+
+const formatRegression = ({
+	theme,
+	pair,
+	expected,
+	actual,
+	expectedRatio,
+	ratio,
+}: Regression) =>
+	`[${theme}] ${pair}: ${expected} (${expectedRatio}:1) → ${actual} (${ratio}:1)`;
+
+export const loadBaseline = async (
+	path = BASELINE_PATH,
+): Promise<ContrastBaseline> => {
+	const baseline = file(path);
+	return (await baseline.exists()) ? baseline.json() : {};
+};
+
+/**
+ * Run the audit as part of the build, on the variables files it is about to write
+ * Warns about pairs below AA, returns false if any pair regressed
+ */
+export async function checkContrast(
+	themes: Record<string, string>,
+): Promise<boolean> {
+	const audits = auditThemes(themes);
+	const regressions = findRegressions(audits, await loadBaseline());
+
+	const belowAA = audits.flatMap(({ theme, results }) =>
+		results
+			.filter(
+				(result) => result.level === "AA Large" || result.level === "Fail",
+			)
+			.map((result) => `${theme}: ${pairId(result)} ${result.ratio}:1`),
+	);
+	if (belowAA.length > 0) {
+		console.warn(`\n⚠️  ${belowAA.length} color pair(s) below WCAG AA:`);
+		for (const line of belowAA) console.warn(`   • ${line}`);
+	}
+
+	for (const regression of regressions) {
+		console.error(`❌ Contrast regression ${formatRegression(regression)}`);
+	}
+
+	return regressions.length === 0;
+}
+
+/**
+ * CLI entrypoint - `juice contrast`
+ */
+export async function contrastCLI(args: string[] = process.argv.slice(2)) {
+	const { values } = parseArgs({
+		args,
+		options: { update: { type: "boolean", default: false } },
+	});
+
+	const audits = await auditContrast();
+	console.log(`🔍 WCAG contrast audit\n\n${formatReport(audits)}\n`);
+
+	if (values.update) {
+		await write(
+			BASELINE_PATH,
+			`${JSON.stringify(toBaseline(audits), null, "\t")}\n`,
+		);
+		console.log(`✅ Baseline updated: ${BASELINE_PATH}`);
+		return;
+	}
+
+	const regressions = findRegressions(audits, await loadBaseline());
+	if (regressions.length > 0) {
+		for (const regression of regressions) {
+			console.error(`❌ ${formatRegression(regression)}`);
+		}
+		console.error("\nFix the colors or accept with: juice contrast --update");
+		process.exit(1);
+	}
+
+	console.log("✅ No contrast regressions");
+}
+
+if (import.meta.main) {
+	await contrastCLI();
+}
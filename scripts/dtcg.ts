@@ -0,0 +1,450 @@
+#!/usr/bin/env bun
+
+/**
+ * juice.css DTCG Tokens
+ * Exports the token source as W3C Design Tokens (DTCG) JSON and imports it back
+ *
+ * Usage:
+ *   juice tokens export [--out <dir>]          Write the .tokens.json files
+ *   juice tokens import <file> [--theme <name>] Update src/lib/tokens.ts and
+ *                                               regenerate the variables files
+ *
+ * Two flavours are exported:
+ * - juice.tokens.json: Tokens Studio layout - a "core" set plus one set per
+ *   theme, with the themes listed as modes in $themes
+ * - juice-<theme>.tokens.json: one standalone tree per theme (core + colors),
+ *   ready to use as a Style Dictionary source
+ */
+
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { file, write } from "bun";
+import {
+	designTokens,
+	type ThemeName,
+	type TokenSection,
+	themes,
+} from "../src/lib/tokens";
+import { parseColor } from "./color";
+import { themeLabel } from "./theme-files";
+import type { TokenMap } from "./tokens";
+
+export type DTCGType =
+	| "color"
+	| "dimension"
+	| "duration"
+	| "number"
+	| "fontWeight"
+	| "cubicBezier";
+
+export interface DTCGToken {
+	$type: DTCGType;
+	$value: unknown;
+	$description?: string;
+}
+
+export interface DTCGGroup {
+	[key: string]: DTCGToken | DTCGGroup;
+}
+
+/** A DTCG file: groups plus $-prefixed metadata such as $themes */
+export type DTCGDocument = Record<string, unknown>;
+
+/** Token values read from a DTCG file, in the shape of tokenValues() */
+export interface ImportedTokens {
+	tokens: TokenMap;
+	themes: Partial<Record<ThemeName, TokenMap>>;
+}
+
+export interface TokenSourceUpdate {
+	source: string;
+	/** "theme: name" of every token whose value changed */
+	updated: string[];
+	/** Tokens the source doesn't define */
+	unknown: string[];
+}
+
+export const TOKEN_SOURCE = "src/lib/tokens.ts";
+
+const CORE_SET = "core";
+
+// Design tokens are nested by prefix, e.g. space-4 → core.space.4
+const GROUPS = [
+	"font-size",
+	"line-height",
+	"font-weight",
+	"letter-spacing",
+	"space",
+	"radius",
+	"border",
+	"tap-target",
+	"animation",
+	"z",
+];
+
+const EASINGS: Record<string, number[]> = {
+	linear: [0, 0, 1, 1],
+	ease: [0.25, 0.1, 0.25, 1],
+	"ease-in": [0.42, 0, 1, 1],
+	"ease-out": [0, 0, 0.58, 1],
+	"ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+const designType = (name: string): DTCGType =>
+	name.startsWith("font-weight-")
+		? "fontWeight"
+		: name.startsWith("line-height-") || name.startsWith("z-")
+			? "number"
+			: name === "animation-duration"
+				? "duration"
+				: name === "animation-easing"
+					? "cubicBezier"
+					: "dimension";
+
+const tokenPath = (name: string): string[] => {
+	const group = GROUPS.find((prefix) => name.startsWith(`${prefix}-`));
+	return group ? [group, name.slice(group.length + 1)] : [name];
+};
+
+const isToken = (node: unknown): node is DTCGToken =>
+	typeof node === "object" && node !== null && "$value" in node;
+
+const isThemeName = (name: string): name is ThemeName => name in themes;
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const toDTCGValue = (type: DTCGType, value: string): unknown => {
+	switch (type) {
+		case "number":
+		case "fontWeight":
+			return Number(value);
+		case "cubicBezier":
+			return (
+				EASINGS[value] ??
+				value
+					.match(/cubic-bezier\(([^)]+)\)/)?.[1]
+					?.split(",")
+					.map(Number) ??
+				value
+			);
+		default:
+			return value;
+	}
+};
+
+const setIn = (group: DTCGGroup, path: string[], token: DTCGToken) => {
+	let node = group;
+	for (const key of path.slice(0, -1)) {
+		node[key] ??= {};
+		node = node[key] as DTCGGroup;
+	}
+	node[path.at(-1)!] = token;
+};
+
+const sectionTokens = ({ groups }: TokenSection) =>
+	groups.flatMap((group) =>
+		Object.entries(group.tokens).map(([name, token]) =>
+			typeof token === "string"
+				? { name, value: token }
+				: { name, value: token[0], description: token[1] },
+		),
+	);
+
+const dtcgToken = (
+	type: DTCGType,
+	value: string,
+	description?: string,
+): DTCGToken => ({
+	$type: type,
+	$value: toDTCGValue(type, value),
+	...(description && { $description: description }),
+});
+
+/**
+ * Design tokens as a DTCG group
+ */
+export function coreSet(): DTCGGroup {
+	const set: DTCGGroup = {};
+	for (const { name, value, description } of sectionTokens(designTokens)) {
+		setIn(
+			set,
+			tokenPath(name),
+			dtcgToken(designType(name), value, description),
+		);
+	}
+	return set;
+}
+
+/**
+ * A theme's colors as a DTCG group
+ * Values that aren't colors (e.g. the select arrow image) have no DTCG type and are left out
+ */
+export function themeSet(name: ThemeName): DTCGGroup {
+	const set: DTCGGroup = {};
+	for (const token of sectionTokens(themes[name])) {
+		if (parseColor(token.value)) {
+			set[token.name] = dtcgToken("color", token.value, token.description);
+		}
+	}
+	return set;
+}
+
+/**
+ * Tokens Studio document: core + one set per theme, themes as modes
+ */
+export function toDTCG(): DTCGDocument {
+	const names = Object.keys(themes) as ThemeName[];
+	return {
+		[CORE_SET]: coreSet(),
+		...Object.fromEntries(names.map((name) => [name, themeSet(name)])),
+		$themes: names.map((name) => ({
+			id: name,
+			name: themeLabel(name),
+			selectedTokenSets: { [CORE_SET]: "source", [name]: "enabled" },
+		})),
+		$metadata: { tokenSetOrder: [CORE_SET, ...names] },
+	};
+}
+
+/**
+ * Standalone document for one theme (Style Dictionary source)
+ */
+export const toThemeDTCG = (name: ThemeName): DTCGGroup => ({
+	...coreSet(),
+	...themeSet(name),
+});
+
+/**
+ * Every exported file, path → contents
+ */
+export function renderDTCG(outDir = "out"): Record<string, string> {
+	const json = (value: unknown) => `${JSON.stringify(value, null, "\t")}\n`;
+	return {
+		[join(outDir, "juice.tokens.json")]: json(toDTCG()),
+		...Object.fromEntries(
+			(Object.keys(themes) as ThemeName[]).map((name) => [
+				join(outDir, `juice-${name}.tokens.json`),
+				json(toThemeDTCG(name)),
+			]),
+		),
+	};
+}
+
+/**
+ * Write the DTCG files (default: out/)
+ */
+export async function buildDTCG(outDir = "out"): Promise<string[]> {
+	const files = renderDTCG(outDir);
+	await Promise.all(
+		Object.entries(files).map(([path, contents]) => write(path, contents)),
+	);
+	return Object.keys(files);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const fromDTCGValue = (value: unknown): string => {
+	if (typeof value === "string") {
+		// {core.space.4} alias → var(--space-4)
+		const alias = value.match(/^\{(.+)\}$/)?.[1]?.split(".");
+		if (alias) {
+			const path =
+				alias[0] === CORE_SET || isThemeName(alias[0]!)
+					? alias.slice(1)
+					: alias;
+			return `var(--${path.join("-")})`;
+		}
+		return value;
+	}
+	if (typeof value === "number") return String(value);
+	if (Array.isArray(value)) {
+		const easing = Object.entries(EASINGS).find(
+			([, points]) => points.join() === value.join(),
+		);
+		return easing ? easing[0] : `cubic-bezier(${value.join(", ")})`;
+	}
+	if (typeof value === "object" && value !== null) {
+		// DTCG 2025 object values: { value, unit } and { hex, alpha, ... }
+		const { value: amount, unit, hex, alpha } = value as Record<string, never>;
+		if (amount !== undefined && unit) return `${amount}${unit}`;
+		if (hex) {
+			const color = parseColor(hex)!;
+			return alpha === undefined || alpha === 1
+				? hex
+				: `rgba(${color.r}, ${color.g}, ${color.b}, ${alpha})`;
+		}
+	}
+	throw new Error(`Unsupported DTCG value ${JSON.stringify(value)}`);
+};
+
+const flattenGroup = (group: unknown, path: string[] = []): TokenMap => {
+	if (isToken(group)) {
+		return { [path.join("-")]: fromDTCGValue(group.$value) };
+	}
+	if (typeof group !== "object" || group === null) return {};
+
+	return Object.fromEntries(
+		Object.entries(group)
+			.filter(([key]) => !key.startsWith("$"))
+			.flatMap(([key, child]) =>
+				Object.entries(flattenGroup(child, [...path, key])),
+			),
+	);
+};
+
+/**
+ * Read token values from a DTCG document
+ *
+ * Accepts the Tokens Studio layout (core + theme sets) or a standalone tree,
+ * whose colors are assigned to `theme` (default: light).
+ */
+export function fromDTCG(
+	document: DTCGDocument,
+	theme: ThemeName = "light",
+): ImportedTokens {
+	const designNames = new Set(
+		sectionTokens(designTokens).map(({ name }) => name),
+	);
+
+	if (CORE_SET in document || Object.keys(document).some(isThemeName)) {
+		return {
+			tokens: flattenGroup(document[CORE_SET]),
+			themes: Object.fromEntries(
+				Object.keys(document)
+					.filter(isThemeName)
+					.map((name) => [name, flattenGroup(document[name])]),
+			),
+		};
+	}
+
+	const imported: ImportedTokens = { tokens: {}, themes: { [theme]: {} } };
+	for (const [name, value] of Object.entries(flattenGroup(document))) {
+		(designNames.has(name) ? imported.tokens : imported.themes[theme]!)[name] =
+			value;
+	}
+	return imported;
+}
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Source text of a section: designTokens, or one entry of themes
+const sectionRange = (source: string, section: string) => {
+	const start =
+		section === CORE_SET
+			? source.indexOf("export const designTokens")
+			: source.search(new RegExp(`\\n\\t(?:"${section}"|${section}): \\{\\n`));
+	if (start === -1) return undefined;
+
+	// The section ends where the next one starts
+	const next = source
+		.slice(start + 1)
+		.search(/\nexport const |\n\t(?:"[\w-]+"|[\w-]+): \{\n/);
+	return { start, end: next === -1 ? source.length : start + 1 + next };
+};
+
+/**
+ * Replace token values in the text of src/lib/tokens.ts
+ * Comments and layout are kept; unchanged values are left alone
+ */
+export function updateTokenSource(
+	source: string,
+	imported: ImportedTokens,
+): TokenSourceUpdate {
+	const updated: string[] = [];
+	const unknown: string[] = [];
+
+	const sections: [string, TokenMap][] = [
+		[CORE_SET, imported.tokens],
+		...(Object.entries(imported.themes) as [string, TokenMap][]),
+	];
+
+	for (const [section, values] of sections) {
+		for (const [name, value] of Object.entries(values)) {
+			const range = sectionRange(source, section);
+			const key = `(?:"${escapeRegExp(name)}"|${escapeRegExp(name)})`;
+			const pattern = new RegExp(
+				`(\\n\\t+${key}:\\s*(?:\\[\\s*)?)("(?:[^"\\\\]|\\\\.)*")`,
+			);
+			const text = range && source.slice(range.start, range.end);
+			const match = text?.match(pattern);
+
+			if (!range || !text || !match) {
+				unknown.push(`${section}: ${name}`);
+				continue;
+			}
+			if (JSON.parse(match[2]!) === value) continue;
+
+			source =
+				source.slice(0, range.start) +
+				text.replace(pattern, `$1${JSON.stringify(value)}`) +
+				source.slice(range.end);
+			updated.push(`${section}: ${name}`);
+		}
+	}
+
+	return { source, updated, unknown };
+}
+
+/**
+ * CLI entrypoint - `juice tokens export|import`
+ */
+export async function dtcgCLI(args: string[] = process.argv.slice(2)) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			out: { type: "string", default: "out" },
+			theme: { type: "string", default: "light" },
+		},
+	});
+
+	const [command, path] = positionals;
+
+	if (command === "export") {
+		for (const path of await buildDTCG(values.out)) {
+			console.log(`   • ${path}`);
+		}
+		return;
+	}
+
+	if (command !== "import" || !path) {
+		console.error(`Usage: juice tokens export [--out <dir>]
+       juice tokens import <file> [--theme <name>]`);
+		process.exit(1);
+	}
+
+	if (!isThemeName(values.theme)) {
+		console.error(`❌ Unknown theme "${values.theme}"`);
+		process.exit(1);
+	}
+
+	const imported = fromDTCG(await file(path).json(), values.theme);
+	const { source, updated, unknown } = updateTokenSource(
+		await file(TOKEN_SOURCE).text(),
+		imported,
+	);
+
+	for (const name of unknown) {
+		console.warn(`⚠️  Skipped unknown token ${name}`);
+	}
+	if (updated.length === 0) {
+		console.log("✅ Tokens already up to date");
+		return;
+	}
+
+	await write(TOKEN_SOURCE, source);
+	// Regenerate the variables files from the updated source
+	await Bun.$`bun scripts/tokens.ts`.quiet();
+
+	console.log(`✅ Updated ${updated.length} token(s) in ${TOKEN_SOURCE}:`);
+	for (const name of updated) console.log(`   • ${name}`);
+}
+
+if (import.meta.main) {
+	await dtcgCLI();
+}
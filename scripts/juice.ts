@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+
+/**
+ * juice.css CLI
+ *
+ * Commands:
+ *   juice build [--include ...]  Build out/ and the demo site, or a custom bundle
+ *   juice theme <color> [...]    Generate a theme from a brand color
+ *   juice contrast [--update]    Audit WCAG contrast of the theme colors
+ *   juice tokens export|import   Convert tokens to/from DTCG JSON
+ */
+
+import { buildCLI } from "./build";
+import { contrastCLI } from "./contrast-audit";
+import { dtcgCLI } from "./dtcg";
+import { themeCLI } from "./theme";
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+	case "build":
+		await buildCLI(args);
+		break;
+	case "theme":
+		await themeCLI(args);
+		break;
+	case "contrast":
+		await contrastCLI(args);
+		break;
+	case "tokens":
+		await dtcgCLI(args);
+		break;
+	default:
+		console.error(`Usage: juice <command>
+
+Commands:
+  build [--include] [--themes] [--scope] [--out]
+                                         Build out/ and the demo site, or a custom bundle
+  theme <color> [--name] [--out]         Generate a theme from a brand color
+  contrast [--update]                    Audit WCAG contrast of the theme colors
+  tokens export [--out]                  Export DTCG .tokens.json files
+  tokens import <file> [--theme]         Import a DTCG file into the token source`);
+		process.exit(command ? 1 : 0);
+}
@@ -0,0 +1,255 @@
+/**
+ * juice.css CSS Minifier
+ * Tokenizer-based minifier that only removes whitespace where the CSS grammar
+ * allows it, so strings, url() values, calc() operators and descendant
+ * combinators (e.g. `a :hover`, or `& :hover` in a nested rule) survive untouched.
+ */
+
+export type TokenType =
+	| "whitespace"
+	| "comment"
+	| "string"
+	| "url"
+	| "punct"
+	| "word";
+
+export interface Token {
+	type: TokenType;
+	value: string;
+}
+
+export interface MinifyStats {
+	originalBytes: number;
+	minifiedBytes: number;
+	savedBytes: number;
+	/** Fraction of the original size that was removed (0-1) */
+	savings: number;
+}
+
+// Single characters that always form their own token
+const PUNCTUATION = new Set([
+	"{",
+	"}",
+	"(",
+	")",
+	"[",
+	"]",
+	";",
+	":",
+	",",
+	">",
+	"~",
+	"+",
+	"=",
+	"!",
+]);
+
+// Whitespace is never significant after / before these
+const TIGHT_AFTER = new Set(["{", "}", ";", ",", "(", "[", "=", ":", "!"]);
+const TIGHT_BEFORE = new Set(["{", "}", ";", ",", ")", "]", "=", "!"]);
+
+// Selector combinators - calc() needs the spaces around + inside declarations
+const COMBINATORS = new Set([">", "~", "+"]);
+
+// At-rules whose blocks contain rules rather than declarations
+export const GROUPING_AT_RULE =
+	/^@(media|supports|container|layer|document|scope|starting-style)$/i;
+
+const isWhitespace = (char: string | undefined) =>
+	char !== undefined && /\s/.test(char);
+
+const isWordChar = (css: string, i: number) => {
+	const char = css[i];
+	if (char === undefined || isWhitespace(char) || PUNCTUATION.has(char)) {
+		return false;
+	}
+	if (char === '"' || char === "'") return false;
+	return !(char === "/" && css[i + 1] === "*");
+};
+
+// Consume a quoted string starting at `start`, honouring backslash escapes
+const readString = (css: string, start: number): number => {
+	const quote = css[start];
+	let i = start + 1;
+	while (i < css.length && css[i] !== quote) {
+		i += css[i] === "\\" ? 2 : 1;
+	}
+	return Math.min(i + 1, css.length);
+};
+
+// Consume an unquoted url(...) body starting after the opening paren
+const readURL = (css: string, start: number): number => {
+	let i = start;
+	while (i < css.length && css[i] !== ")") {
+		i += css[i] === "\\" ? 2 : 1;
+	}
+	return Math.min(i + 1, css.length);
+};
+
+/**
+ * Split a stylesheet into tokens
+ * Every character of the input ends up in exactly one token
+ */
+export function tokenize(css: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < css.length) {
+		const char = css[i]!;
+		const start = i;
+
+		if (isWhitespace(char)) {
+			while (isWhitespace(css[i])) i++;
+			tokens.push({ type: "whitespace", value: css.slice(start, i) });
+		} else if (char === "/" && css[i + 1] === "*") {
+			const end = css.indexOf("*/", i + 2);
+			i = end === -1 ? css.length : end + 2;
+			tokens.push({ type: "comment", value: css.slice(start, i) });
+		} else if (char === '"' || char === "'") {
+			i = readString(css, i);
+			tokens.push({ type: "string", value: css.slice(start, i) });
+		} else if (PUNCTUATION.has(char)) {
+			i++;
+			tokens.push({ type: "punct", value: char });
+		} else {
+			while (isWordChar(css, i)) {
+				i += css[i] === "\\" ? 2 : 1;
+			}
+			const word = css.slice(start, i);
+
+			// Unquoted url(...) is a single token - its contents are opaque
+			if (word.toLowerCase() === "url" && css[i] === "(") {
+				let j = i + 1;
+				while (isWhitespace(css[j])) j++;
+				if (css[j] !== '"' && css[j] !== "'") {
+					i = readURL(css, i + 1);
+					tokens.push({ type: "url", value: css.slice(start, i) });
+					continue;
+				}
+			}
+
+			tokens.push({ type: "word", value: word });
+		}
+	}
+
+	return tokens;
+}
+
+const isPunct = (token: Token, chars: Set<string>) =>
+	token.type === "punct" && chars.has(token.value);
+
+/**
+ * Decide whether the whitespace between two tokens must be kept
+ */
+const needsSpace = (
+	prev: Token,
+	next: Token,
+	inDeclarations: boolean,
+): boolean => {
+	if (isPunct(prev, TIGHT_AFTER) || isPunct(next, TIGHT_BEFORE)) return false;
+
+	if (inDeclarations) {
+		// `color : red` - but keep the space in selectors like `a :hover`
+		return !(next.type === "punct" && next.value === ":");
+	}
+
+	return !isPunct(prev, COMBINATORS) && !isPunct(next, COMBINATORS);
+};
+
+/**
+ * Whether the statement starting at `start` ends in `{` - inside a declaration
+ * block that makes it a nested rule, whose prelude is a selector
+ */
+const opensBlock = (tokens: Token[], start: number): boolean => {
+	for (let i = start; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.type !== "punct") continue;
+		if (token.value === "{") return true;
+		if (token.value === ";" || token.value === "}") return false;
+	}
+	return false;
+};
+
+/**
+ * Minify a stylesheet
+ * Removes comments, redundant whitespace and trailing semicolons
+ */
+export function minifyCSS(css: string): string {
+	const out: string[] = [];
+	// Block stack: true = declaration block, false = rule block (top level, @media...)
+	const blocks: boolean[] = [false];
+	let preludeStart: string | undefined;
+	let prev: Token | undefined;
+	let pendingSpace = false;
+	let nestedRule = false;
+	const tokens = tokenize(css);
+
+	for (const [index, token] of tokens.entries()) {
+		if (token.type === "whitespace" || token.type === "comment") {
+			pendingSpace = prev !== undefined;
+			continue;
+		}
+
+		const inBlock = blocks[blocks.length - 1]!;
+		if (preludeStart === undefined) {
+			nestedRule = inBlock && opensBlock(tokens, index);
+		}
+		const inDeclarations = inBlock && !nestedRule;
+
+		// Drop empty declarations (`;;`) and the final semicolon of a block
+		if (token.type === "punct" && token.value === ";" && prev?.value === ";") {
+			continue;
+		}
+		if (token.type === "punct" && token.value === "}" && out.at(-1) === ";") {
+			out.pop();
+		}
+
+		if (pendingSpace && prev && needsSpace(prev, token, inDeclarations)) {
+			out.push(" ");
+		}
+		pendingSpace = false;
+
+		if (token.type === "punct" && token.value === "{") {
+			// Nested rules and at-rules hold declarations, like their parent
+			blocks.push(inBlock || !GROUPING_AT_RULE.test(preludeStart ?? ""));
+			preludeStart = undefined;
+		} else if (token.type === "punct" && token.value === "}") {
+			if (blocks.length > 1) blocks.pop();
+			preludeStart = undefined;
+		} else if (token.type === "punct" && token.value === ";") {
+			preludeStart = undefined;
+		} else {
+			preludeStart ??= token.value;
+		}
+
+		out.push(token.value);
+		prev = token;
+	}
+
+	return out.join("");
+}
+
+const byteLength = (css: string) => new TextEncoder().encode(css).length;
+
+/**
+ * Minify a stylesheet and report how many bytes were saved
+ */
+export function minifyWithStats(css: string): {
+	css: string;
+	stats: MinifyStats;
+} {
+	const minified = minifyCSS(css);
+	const originalBytes = byteLength(css);
+	const minifiedBytes = byteLength(minified);
+	const savedBytes = originalBytes - minifiedBytes;
+
+	return {
+		css: minified,
+		stats: {
+			originalBytes,
+			minifiedBytes,
+			savedBytes,
+			savings: originalBytes === 0 ? 0 : savedBytes / originalBytes,
+		},
+	};
+}
@@ -0,0 +1,201 @@
+/**
+ * juice.css Modules
+ * Named groups of the src/lib/modules/*.css files base.css imports
+ *
+ * A custom bundle only contains the requested modules plus their dependencies,
+ * always in base.css order - so a bundle of every module is byte-identical to
+ * the full one.
+ */
+
+import { basename, dirname, join } from "node:path";
+import { file } from "bun";
+
+export interface ModuleDefinition {
+	description: string;
+	/** File names in src/lib/modules/, without .css */
+	files: string[];
+	/** Modules this one builds on */
+	requires?: string[];
+}
+
+/** Always included - box sizing, page colors, selection, scrollbars, user preferences */
+export const CORE_MODULE = "document";
+
+const definitions = {
+	document: {
+		description:
+			"Box sizing, page and body, selection, scrollbars, motion and contrast preferences",
+		files: ["document", "selection", "scrollbar", "preferences"],
+	},
+	typography: {
+		description: "Headings, text, links, lists, quotes and inline elements",
+		files: [
+			"typography",
+			"lists",
+			"blockquote",
+			"hr",
+			"mark",
+			"definition-lists",
+			"inline",
+			"address",
+			"footer",
+		],
+	},
+	callouts: {
+		description: "Notes, warnings and alerts, including GitHub markdown alerts",
+		files: ["callouts"],
+	},
+	focus: {
+		description: "Focus ring for interactive controls",
+		files: ["focus"],
+	},
+	forms: {
+		description:
+			"Inputs, selects, buttons, labels, fieldsets, checkboxes, validation states",
+		files: [
+			"forms",
+			"form-fields",
+			"color-input",
+			"fieldset",
+			"checkboxes",
+			"validation",
+		],
+		requires: ["focus"],
+	},
+	"theme-switcher": {
+		description: "Styles for the <juice-theme-switcher> element",
+		files: ["theme-switcher"],
+		requires: ["forms"],
+	},
+	range: {
+		description: "Range slider",
+		files: ["range"],
+		requires: ["forms"],
+	},
+	code: {
+		description: "Inline code, kbd, samp and pre blocks",
+		files: ["code"],
+	},
+	"code-blocks": {
+		description:
+			"Code block header bars, language badges, line numbers and highlighted lines",
+		files: ["code-blocks"],
+		requires: ["code"],
+	},
+	"copy-code": {
+		description: "Copy buttons on code blocks, added by juice-copy-code.js",
+		files: ["copy-code"],
+		requires: ["code", "forms"],
+	},
+	tables: {
+		description: "Tables with horizontal scroll or stacked cards on mobile",
+		files: ["tables"],
+	},
+	media: {
+		description: "Images, video and figures",
+		files: ["images", "figure"],
+	},
+	details: {
+		description: "Details/summary accordion",
+		files: ["details"],
+	},
+	navigation: {
+		description: "Sticky header nav bar with a collapsible mobile menu",
+		files: ["navigation"],
+		requires: ["details"],
+	},
+	progress: {
+		description: "Progress bar",
+		files: ["progress"],
+	},
+	meter: {
+		description: "Meter gauge",
+		files: ["meter"],
+	},
+	dialog: {
+		description: "Dialog and backdrop",
+		files: ["dialog"],
+	},
+	print: {
+		description: "Print stylesheet",
+		files: ["print"],
+	},
+} satisfies Record<string, ModuleDefinition>;
+
+export type ModuleName = keyof typeof definitions;
+
+export const MODULES: Record<ModuleName, ModuleDefinition> = definitions;
+
+const IMPORT = /^@import\s+"([^"]+)";$/gm;
+
+const isModuleName = (name: string): name is ModuleName => name in MODULES;
+
+/**
+ * Expand a module list with its dependencies (and the core module)
+ */
+export function resolveModules(include: string[]): ModuleName[] {
+	const resolved = new Set<ModuleName>();
+	const visit = (name: string) => {
+		if (!isModuleName(name)) {
+			throw new Error(
+				`Unknown module "${name}" - available: ${Object.keys(MODULES).join(", ")}`,
+			);
+		}
+		if (resolved.has(name)) return;
+		resolved.add(name);
+		for (const dependency of MODULES[name].requires ?? []) {
+			visit(dependency);
+		}
+	};
+
+	visit(CORE_MODULE);
+	for (const name of include) visit(name);
+
+	// Keep the order of MODULES
+	return (Object.keys(MODULES) as ModuleName[]).filter((name) =>
+		resolved.has(name),
+	);
+}
+
+const importedPaths = (index: string, basePath: string) =>
+	Array.from(index.matchAll(IMPORT), (match) =>
+		join(dirname(basePath), match[1]!),
+	);
+
+/**
+ * Module files base.css imports, in order
+ */
+export const moduleFiles = async (basePath: string) =>
+	importedPaths(await file(basePath).text(), basePath);
+
+/**
+ * Inline the module files imported by base.css
+ * Keeps the leading header comment; `include` limits the output to those modules
+ */
+export async function assembleBase(
+	basePath: string,
+	include?: string[],
+): Promise<string> {
+	const index = await file(basePath).text();
+	let paths = importedPaths(index, basePath);
+
+	// A plain stylesheet without imports is used as-is
+	if (paths.length === 0) {
+		if (include) {
+			throw new Error(`${basePath} has no modules to pick from`);
+		}
+		return index;
+	}
+
+	if (include) {
+		const wanted = new Set(
+			resolveModules(include).flatMap((name) => MODULES[name].files),
+		);
+		paths = paths.filter((path) => wanted.has(basename(path, ".css")));
+	}
+
+	const header = index.match(/^\/\*\*[\s\S]*?\*\//)?.[0];
+	const parts = await Promise.all(paths.map((path) => file(path).text()));
+
+	return `${[...(header ? [header] : []), ...parts.map((part) => part.trimEnd())].join("\n\n")}\n`;
+}
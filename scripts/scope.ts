@@ -0,0 +1,139 @@
+/**
+ * juice.css Scoped Build
+ * Confines juice.css under a container selector, e.g. `.juice` or `[data-juice]`
+ *
+ * - :root, html and body rules apply to the scope element itself
+ * - [data-theme] overrides work on the scope element or on any ancestor
+ * - every other selector only matches inside the scope
+ *
+ * Rules inside @keyframes, @page, @font-face... are left alone.
+ */
+
+import { GROUPING_AT_RULE, type Token, tokenize } from "./minify-css";
+
+export const DEFAULT_SCOPE = ".juice";
+
+// What an open block contains
+type BlockKind = "rules" | "declarations" | "opaque";
+
+const ROOT_COMPOUND = /^(?::root|html|body)(?![\w-])/;
+const THEME_COMPOUND = /^\[data-theme\b[^\]]*\]/;
+
+/**
+ * Split a selector list on its top-level commas
+ * Each part keeps its leading whitespace
+ */
+export function splitSelectors(selectors: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let quote: string | undefined;
+	let start = 0;
+
+	for (let i = 0; i < selectors.length; i++) {
+		const char = selectors[i]!;
+		if (quote) {
+			if (char === "\\") i++;
+			else if (char === quote) quote = undefined;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "(" || char === "[") {
+			depth++;
+		} else if (char === ")" || char === "]") {
+			depth--;
+		} else if (char === "," && depth === 0) {
+			parts.push(selectors.slice(start, i));
+			start = i + 1;
+		}
+	}
+	parts.push(selectors.slice(start));
+	return parts;
+}
+
+/**
+ * Scope a single selector - may expand to several
+ */
+export function scopeSelector(selector: string, scope: string): string[] {
+	const root = selector.match(ROOT_COMPOUND)?.[0];
+	if (root !== undefined) {
+		return [`${scope}${selector.slice(root.length)}`];
+	}
+
+	const theme = selector.match(THEME_COMPOUND)?.[0];
+	if (theme !== undefined) {
+		const rest = selector.slice(theme.length);
+		return [`${scope}${theme}${rest}`, `${theme} ${scope}${rest}`];
+	}
+
+	return [`${scope} ${selector}`];
+}
+
+// Rewrite a rule prelude, keeping its comments and whitespace
+const scopePrelude = (prelude: string, scope: string) => {
+	const [, leading = "", selectors = "", trailing = ""] =
+		prelude.match(/^(\s*(?:\/\*[\s\S]*?\*\/\s*)*)([\s\S]*?)(\s*)$/) ?? [];
+
+	// html, body → scope, scope: keep each selector once
+	const scoped = new Map<string, string>();
+	for (const part of splitSelectors(selectors)) {
+		const space = part.match(/^\s*/)![0];
+		for (const selector of scopeSelector(part.trim(), scope)) {
+			if (!scoped.has(selector)) scoped.set(selector, space);
+		}
+	}
+
+	const list = Array.from(scoped, ([selector, space], i) =>
+		i === 0 ? `${space}${selector}` : `,${space || " "}${selector}`,
+	).join("");
+
+	return `${leading}${list}${trailing}`;
+};
+
+/**
+ * Rewrite every style rule of a stylesheet to live under `scope`
+ */
+export function scopeCSS(css: string, scope = DEFAULT_SCOPE): string {
+	const stack: BlockKind[] = [];
+	let output = "";
+	let prelude: Token[] = [];
+
+	const text = (tokens: Token[]) => tokens.map((token) => token.value).join("");
+
+	for (const token of tokenize(css)) {
+		if (token.type !== "punct" || !"{};".includes(token.value)) {
+			prelude.push(token);
+			continue;
+		}
+
+		const current = stack.at(-1) ?? "rules";
+		const raw = text(prelude);
+		const first = prelude.find(
+			({ type }) => type !== "whitespace" && type !== "comment",
+		);
+		prelude = [];
+
+		if (token.value !== "{") {
+			if (token.value === "}") stack.pop();
+			output += raw + token.value;
+			continue;
+		}
+
+		const atRule = first?.value.match(/^@[\w-]+/)?.[0];
+		if (current === "opaque") {
+			stack.push("opaque");
+			output += raw;
+		} else if (atRule) {
+			stack.push(GROUPING_AT_RULE.test(atRule) ? "rules" : "opaque");
+			output += raw;
+		} else if (current === "rules") {
+			stack.push("declarations");
+			output += scopePrelude(raw, scope);
+		} else {
+			// Nested rule - relative to its already scoped parent
+			stack.push("declarations");
+			output += raw;
+		}
+		output += "{";
+	}
+
+	return output + text(prelude);
+}
@@ -0,0 +1,58 @@
+/**
+ * juice.css Theme Discovery
+ * Finds the variables files the build turns into themes
+ *
+ * Every src/lib/variables-<name>.css is a theme. "light" holds the full set of
+ * design tokens; every other theme only overrides colors and inherits the rest.
+ */
+
+import { join } from "node:path";
+import { file, Glob } from "bun";
+
+/** Theme name → variables file path */
+export type ThemeFiles = Record<string, string>;
+
+export const THEME_DIR = "src/lib";
+
+/** variables-<name>.css */
+export const THEME_FILE = /^variables-([a-z0-9-]+)\.css$/;
+
+// light and dark first, then alphabetical
+const themeOrder = (a: string, b: string) => {
+	const rank = (name: string) => ["light", "dark"].indexOf(name) >>> 0;
+	return rank(a) - rank(b) || a.localeCompare(b);
+};
+
+/**
+ * Discover theme variables files in a directory
+ */
+export async function discoverThemes(dir = THEME_DIR): Promise<ThemeFiles> {
+	const names: string[] = [];
+	for await (const path of new Glob("variables-*.css").scan({ cwd: dir })) {
+		const name = path.match(THEME_FILE)?.[1];
+		if (name) names.push(name);
+	}
+
+	return Object.fromEntries(
+		names
+			.sort(themeOrder)
+			.map((name) => [name, join(dir, `variables-${name}.css`)]),
+	);
+}
+
+/**
+ * Read every theme's variables file, keeping the theme order
+ */
+export async function readThemes(
+	themeFiles: ThemeFiles,
+): Promise<Record<string, string>> {
+	const entries = await Promise.all(
+		Object.entries(themeFiles).map(
+			async ([name, path]) => [name, await file(path).text()] as const,
+		),
+	);
+	return Object.fromEntries(entries);
+}
+
+// The theme switcher labels its options the same way
+export { themeLabel } from "../src/lib/theme-label";
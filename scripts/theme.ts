@@ -0,0 +1,245 @@
+#!/usr/bin/env bun
+
+/**
+ * juice.css Theme Generator
+ * Derives a complete light + dark palette from a single brand color
+ *
+ * Usage:
+ *   juice theme <color> [--name <name>] [--out <dir>]
+ *
+ * The existing variables files are used as templates, so generated files have
+ * exactly the same shape (tokens, comments, order) - only the accent-derived
+ * colors change.
+ */
+
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { file, write } from "bun";
+import { indent, toDataTheme } from "./build";
+import {
+	contrastRatio,
+	hslShift,
+	parseColor,
+	type RGBA,
+	shiftHSL,
+	toHex,
+	toRGBA,
+} from "./color";
+import { tokenValues } from "./tokens";
+
+/** Accent-derived variables, keyed by custom property name */
+export type Palette = Record<string, string>;
+
+export interface ThemeOptions {
+	/** Theme name, used for file names and the data-theme value (default: custom) */
+	name?: string;
+	/** Light variables template (default: src/lib/variables-light.css) */
+	lightVariables?: string;
+	/** Dark variables template (default: src/lib/variables-dark.css) */
+	darkVariables?: string;
+}
+
+export interface GeneratedTheme {
+	name: string;
+	palette: { light: Palette; dark: Palette };
+	/** Variables file in the shape of variables-light.css */
+	light: string;
+	/** Variables file in the shape of variables-dark.css */
+	dark: string;
+	/** [data-theme="name"] override block (dark follows prefers-color-scheme) */
+	dataTheme: string;
+}
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+// White text like Apple's filled buttons, unless it drops below 3:1 (e.g. yellow)
+const textOn = (background: RGBA) =>
+	contrastRatio(WHITE, background) >= 3 ? "#ffffff" : "#000000";
+
+// Same roles, same alphas as the stock variables files
+const accentPalette = (
+	accent: RGBA,
+	hover: RGBA,
+	alphas: { focus: number; selection: number },
+): Palette => ({
+	"--links": toHex(accent),
+	"--focus": toRGBA(accent, alphas.focus),
+	"--selection": toRGBA(accent, alphas.selection),
+	"--button-base": toHex(accent),
+	"--button-hover": toHex(hover),
+	"--button-text": textOn(accent),
+});
+
+// Apple's stock accents - the shifts between them calibrate derivePalette,
+// so the stock seed reproduces the shipped palettes exactly
+const stock = tokenValues().themes;
+const stockColor = (color: string | undefined) => parseColor(color ?? "")!;
+const SHIFTS = {
+	lightHover: hslShift(
+		stockColor(stock.light.links),
+		stockColor(stock.light["button-hover"]),
+	),
+	dark: hslShift(stockColor(stock.light.links), stockColor(stock.dark.links)),
+	darkHover: hslShift(
+		stockColor(stock.dark.links),
+		stockColor(stock.dark["button-hover"]),
+	),
+};
+
+/**
+ * Derive the light and dark accent palettes from a seed color
+ *
+ * Light mode uses the seed as-is with a darker hover state. Dark mode lifts the
+ * seed slightly (like Apple's #007aff → #0a84ff) and hovers lighter still.
+ * Every shift is the one between Apple's stock colors.
+ */
+export function derivePalette(seed: string): { light: Palette; dark: Palette } {
+	const color = parseColor(seed);
+	if (!color) {
+		throw new Error(`Invalid seed color "${seed}" - use hex or rgb()`);
+	}
+
+	const accent = { ...color, a: 1 };
+	const lifted = shiftHSL(accent, SHIFTS.dark);
+
+	return {
+		light: accentPalette(accent, shiftHSL(accent, SHIFTS.lightHover), {
+			focus: 0.4,
+			selection: 0.2,
+		}),
+		dark: accentPalette(lifted, shiftHSL(lifted, SHIFTS.darkHover), {
+			focus: 0.5,
+			selection: 0.3,
+		}),
+	};
+}
+
+/**
+ * Replace the values of the given custom properties, keeping everything else
+ */
+export const replaceVariables = (css: string, palette: Palette) =>
+	Object.entries(palette).reduce(
+		(result, [name, value]) =>
+			result.replace(
+				new RegExp(`(^\\s*${name}:\\s*)[^;]+;`, "m"),
+				`$1${value};`,
+			),
+		css,
+	);
+
+// Swap the header comment title, e.g. "juice.css - Brand Theme Variables (Light)"
+// and drop the templates' "Auto-generated from src/lib/tokens.ts" note
+const retitle = (css: string, name: string, mode: string, seed: string) =>
+	css
+		.replace(/^ \*\n \* Auto-generated from .*\n \* DO NOT EDIT .*\n/m, "")
+		.replace(
+			/^ \* juice\.css - .*$/m,
+			` * juice.css - ${name} Theme Variables (${mode})\n * Generated by: juice theme ${seed} --name ${name}`,
+		);
+
+/**
+ * Generate the variables files and data-theme block for a brand color
+ */
+export async function generateTheme(
+	seed: string,
+	options: ThemeOptions = {},
+): Promise<GeneratedTheme> {
+	const {
+		name = "custom",
+		lightVariables = "src/lib/variables-light.css",
+		darkVariables = "src/lib/variables-dark.css",
+	} = options;
+
+	if (!/^[a-z][a-z0-9-]*$/i.test(name)) {
+		throw new Error(
+			`Invalid theme name "${name}" - use letters, digits and dashes`,
+		);
+	}
+
+	const palette = derivePalette(seed);
+	const [lightTemplate, darkTemplate] = await Promise.all([
+		file(lightVariables).text(),
+		file(darkVariables).text(),
+	]);
+
+	const light = retitle(
+		replaceVariables(lightTemplate, palette.light),
+		name,
+		"Light",
+		seed,
+	);
+	const dark = retitle(
+		replaceVariables(darkTemplate, palette.dark),
+		name,
+		"Dark",
+		seed,
+	);
+
+	const dataTheme = `/* ${name} theme - light */
+${toDataTheme(light, name)}
+
+/* ${name} theme - dark (follows system preference) */
+@media (prefers-color-scheme: dark) {
+${indent(toDataTheme(dark, name))}
+}
+`;
+
+	return { name, palette, light, dark, dataTheme };
+}
+
+/**
+ * CLI entrypoint - `juice theme <color>`
+ */
+export async function themeCLI(args: string[] = process.argv.slice(2)) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			name: { type: "string", default: "custom" },
+			out: { type: "string", default: "themes" },
+		},
+	});
+
+	const [seed] = positionals;
+	if (!seed) {
+		console.error("Usage: juice theme <color> [--name <name>] [--out <dir>]");
+		process.exit(1);
+	}
+
+	console.log(`🎨 Generating "${values.name}" theme from ${seed}...`);
+
+	let theme: GeneratedTheme;
+	try {
+		theme = await generateTheme(seed, { name: values.name });
+	} catch (error) {
+		console.error(`❌ ${(error as Error).message}`);
+		process.exit(1);
+	}
+
+	const files = {
+		[`variables-${theme.name}.css`]: theme.light,
+		[`variables-${theme.name}-dark.css`]: theme.dark,
+		[`theme-${theme.name}.css`]: theme.dataTheme,
+	};
+
+	await Promise.all(
+		Object.entries(files).map(([name, css]) =>
+			write(join(values.out, name), css),
+		),
+	);
+
+	console.log("✅ Theme generated!");
+	for (const name of Object.keys(files)) {
+		console.log(`   • ${join(values.out, name)}`);
+	}
+	console.log("\nAccent palette:");
+	for (const [mode, palette] of Object.entries(theme.palette)) {
+		console.log(
+			`   ${mode}: ${palette["--links"]} / hover ${palette["--button-hover"]}`,
+		);
+	}
+}
+
+if (import.meta.main) {
+	await themeCLI();
+}
@@ -0,0 +1,263 @@
+#!/usr/bin/env bun
+
+/**
+ * juice.css Token Generator
+ * Turns the typed token source (src/lib/tokens.ts) into:
+ * - src/lib/variables-<theme>.css
+ * - src/lib/color-schemes.ts (for the theme scripts)
+ * - out/tokens.json
+ * - out/tokens.js + out/tokens.d.ts
+ */
+
+import { join } from "node:path";
+import { write } from "bun";
+import {
+	designTokens,
+	type ThemeName,
+	type TokenGroup,
+	type TokenSection,
+	type TokenValue,
+	themes,
+} from "../src/lib/tokens";
+import { THEME_DIR } from "./theme-files";
+
+export type { ThemeName };
+
+export interface TokenBuildOptions {
+	/** Directory for tokens.json / tokens.js / tokens.d.ts (default: out) */
+	outDir?: string;
+	/** Directory for the variables CSS files and color-schemes.ts (default: src/lib) */
+	variablesDir?: string;
+	/** Write the files to disk, or only return them (default: true) */
+	write?: boolean;
+}
+
+export interface TokenBuildResult {
+	/** Generated file path → contents */
+	files: Record<string, string>;
+}
+
+/** Token name → value */
+export type TokenMap = Record<string, string>;
+
+const GENERATED_NOTE = [
+	"Auto-generated from src/lib/tokens.ts",
+	"DO NOT EDIT DIRECTLY - regenerate with: bun run build",
+];
+
+const tokenValue = (token: TokenValue) =>
+	typeof token === "string" ? token : token[0];
+
+const flatten = ({ groups }: TokenSection): TokenMap =>
+	Object.fromEntries(
+		groups.flatMap((group) =>
+			Object.entries(group.tokens).map(([name, token]) => [
+				name,
+				tokenValue(token),
+			]),
+		),
+	);
+
+/**
+ * Design tokens and per-theme colors as plain name → value maps
+ */
+export const tokenValues = () => ({
+	tokens: flatten(designTokens),
+	themes: Object.fromEntries(
+		Object.entries(themes).map(([name, theme]) => [name, flatten(theme)]),
+	) as Record<ThemeName, TokenMap>,
+});
+
+// ---------------------------------------------------------------------------
+// Variables CSS
+// ---------------------------------------------------------------------------
+
+const renderGroup = ({ title, tokens }: TokenGroup) =>
+	[
+		`\t/* ${title} */`,
+		...Object.entries(tokens).map(([name, token]) =>
+			typeof token === "string"
+				? `\t--${name}: ${token};`
+				: `\t--${name}: ${token[0]}; /* ${token[1]} */`,
+		),
+	].join("\n");
+
+const renderSection = ({ banner, groups }: TokenSection) =>
+	[
+		`\t/* ========================================
+${banner.map((line) => `       ${line}`).join("\n")}
+       ======================================== */`,
+		...groups.map(renderGroup),
+	].join("\n\n");
+
+/**
+ * Render a theme's variables file
+ * light carries the design tokens, every other theme only its colors
+ * Each sets color-scheme so native controls and scrollbars match it
+ */
+export function renderVariables(name: ThemeName): string {
+	const theme = themes[name];
+	const sections = name === "light" ? [designTokens, theme] : [theme];
+	const header = [...theme.header, "", ...GENERATED_NOTE]
+		.map((line) => (line ? ` * ${line}` : " *"))
+		.join("\n");
+
+	return `/**
+${header}
+ */
+
+:root {
+	color-scheme: ${theme.colorScheme};
+
+${sections.map(renderSection).join("\n\n")}
+}
+`;
+}
+
+// ---------------------------------------------------------------------------
+// Theme color schemes
+// ---------------------------------------------------------------------------
+
+const propertyKey = (name: string) =>
+	/^[a-z_$][\w$]*$/i.test(name) ? name : JSON.stringify(name);
+
+/**
+ * Render color-schemes.ts - every theme's color-scheme, for the theme scripts,
+ * which can't carry the whole token source
+ */
+export function renderColorSchemes(): string {
+	return `/**
+ * juice.css theme color schemes
+ * ${GENERATED_NOTE.join("\n * ")}
+ */
+
+/** color-scheme of the built-in themes */
+export const COLOR_SCHEMES: Record<string, "light" | "dark"> = {
+${Object.entries(themes)
+	.map(([name, theme]) => `\t${propertyKey(name)}: "${theme.colorScheme}",`)
+	.join("\n")}
+};
+`;
+}
+
+// ---------------------------------------------------------------------------
+// JSON + JS module
+// ---------------------------------------------------------------------------
+
+const json = (value: unknown) => JSON.stringify(value, null, "\t");
+
+const renderModule = () => {
+	const values = tokenValues();
+	return `/**
+ * juice.css design tokens
+ * ${GENERATED_NOTE.join("\n * ")}
+ */
+
+/** Design tokens shared by every theme */
+export const tokens = ${json(values.tokens)};
+
+/** Color tokens of every theme */
+export const themes = ${json(values.themes)};
+
+/** var() reference for a token, with an optional fallback */
+export const cssVar = (name, fallback) =>
+	fallback === undefined ? \`var(--\${name})\` : \`var(--\${name}, \${fallback})\`;
+
+/** var() references for every token, e.g. vars["space-4"] → "var(--space-4)" */
+export const vars = Object.fromEntries(
+	[...Object.keys(tokens), ...Object.keys(themes.light)].map((name) => [
+		name,
+		cssVar(name),
+	]),
+);
+`;
+};
+
+const union = (names: string[]) =>
+	names.map((name) => `\n\t| ${JSON.stringify(name)}`).join("");
+
+const literalType = (map: TokenMap, indent = "\t") =>
+	`{\n${Object.entries(map)
+		.map(
+			([name, value]) =>
+				`${indent}readonly ${JSON.stringify(name)}: ${JSON.stringify(value)};`,
+		)
+		.join("\n")}\n${indent.slice(1)}}`;
+
+const renderTypes = () => {
+	const values = tokenValues();
+	const colorNames = [
+		...new Set(Object.values(values.themes).flatMap(Object.keys)),
+	];
+
+	return `/**
+ * juice.css design tokens
+ * ${GENERATED_NOTE.join("\n * ")}
+ */
+
+export type ThemeName =${union(Object.keys(values.themes))};
+
+export type DesignTokenName =${union(Object.keys(values.tokens))};
+
+export type ColorTokenName =${union(colorNames)};
+
+export type TokenName = DesignTokenName | ColorTokenName;
+
+/** Design tokens shared by every theme */
+export declare const tokens: ${literalType(values.tokens)};
+
+/** Color tokens of every theme */
+export declare const themes: {
+${Object.entries(values.themes)
+	.map(
+		([name, map]) =>
+			`\treadonly ${JSON.stringify(name)}: ${literalType(map, "\t\t")};`,
+	)
+	.join("\n")}
+};
+
+/** var() reference for a token, with an optional fallback */
+export declare function cssVar<N extends TokenName>(name: N): \`var(--\${N})\`;
+export declare function cssVar<N extends TokenName>(
+	name: N,
+	fallback: string,
+): \`var(--\${N}, \${string})\`;
+
+/** var() references for every token, e.g. vars["space-4"] → "var(--space-4)" */
+export declare const vars: { readonly [N in TokenName]: \`var(--\${N})\` };
+`;
+};
+
+/**
+ * Generate every file derived from the token source
+ */
+export async function buildTokens(
+	options: TokenBuildOptions = {},
+): Promise<TokenBuildResult> {
+	const {
+		outDir = "out",
+		variablesDir = THEME_DIR,
+		write: shouldWrite = true,
+	} = options;
+
+	const files: Record<string, string> = {};
+	for (const name of Object.keys(themes) as ThemeName[]) {
+		files[join(variablesDir, `variables-${name}.css`)] = renderVariables(name);
+	}
+	files[join(variablesDir, "color-schemes.ts")] = renderColorSchemes();
+	files[join(outDir, "tokens.json")] = `${json(tokenValues())}\n`;
+	files[join(outDir, "tokens.js")] = renderModule();
+	files[join(outDir, "tokens.d.ts")] = renderTypes();
+
+	if (shouldWrite) {
+		await Promise.all(
+			Object.entries(files).map(([path, contents]) => write(path, contents)),
+		);
+	}
+
+	return { files };
+}
+
+if (import.meta.main) {
+	await buildTokens();
+}
@@ -5,7 +5,9 @@
  */
 
 import "./theme-switcher";
-import "./copy-button";
 import "./dialog";
 import "./syntax-highlight";
 import "./raw-toggle";
+import "../lib/code-blocks";
+import "../lib/copy-code";
+import "../lib/stack-tables";
@@ -0,0 +1,11 @@
+/**
+ * Themes discovered from src/lib/variables-*.css
+ * DO NOT EDIT DIRECTLY - regenerate with: bun run build
+ */
+
+export const THEMES = [
+	{ name: "light", label: "Light" },
+	{ name: "dark", label: "Dark" },
+	{ name: "high-contrast", label: "High Contrast" },
+	{ name: "sepia", label: "Sepia" },
+] as const;
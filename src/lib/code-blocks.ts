@@ -0,0 +1,147 @@
+/**
+ * juice.css Code Blocks
+ * Progressive enhancement for <pre><code> blocks, driven by attributes:
+ *
+ *   <pre data-title="app.ts" data-lines="3-5" data-line-numbers>
+ *     <code class="language-ts">...</code>
+ *   </pre>
+ *
+ * - data-title and a language-* class render a header bar: a <figcaption>
+ *   with the title and a language badge, in a <figure> around the block.
+ *   A figure's own <figcaption> is kept as the header (or caption) instead.
+ * - data-line-numbers adds a gutter of line numbers
+ * - data-lines="1,3-5" highlights those lines
+ *
+ * Line numbers and highlights are aria-hidden layers next to the <code>, so
+ * highlighters like Prism can run before or after, and copying the code with
+ * juice-copy-code.js leaves them out.
+ *
+ * Built to out/juice-code-blocks.js, which runs once on load.
+ */
+
+const LANGUAGE_CLASS = /\blang(?:uage)?-([\w-]+)/;
+
+/**
+ * Language from the language-* class of the code or the pre
+ * An explicit data-language on the pre wins
+ */
+const languageOf = (pre: HTMLElement, code: Element): string | undefined =>
+	pre.dataset.language ??
+	(code.className.match(LANGUAGE_CLASS) ??
+		pre.className.match(LANGUAGE_CLASS))?.[1];
+
+/**
+ * "1,3-5" → 1, 3, 4, 5 - ignores anything past the last line
+ */
+const parseLines = (spec: string, count: number): Set<number> => {
+	const lines = new Set<number>();
+	for (const part of spec.split(",")) {
+		const [start, end = start] = part
+			.split("-")
+			.map((bound) => Number.parseInt(bound, 10));
+		if (!start || !end) continue;
+		for (let line = start; line <= Math.min(end, count); line++) {
+			lines.add(line);
+		}
+	}
+	return lines;
+};
+
+/**
+ * An aria-hidden layer with one row per line of code
+ */
+const lineLayer = (
+	name: string,
+	count: number,
+	highlighted: Set<number>,
+	numbered: boolean,
+): HTMLElement => {
+	const layer = document.createElement("span");
+	layer.setAttribute(name, "");
+	layer.setAttribute("aria-hidden", "true");
+
+	for (let line = 1; line <= count; line++) {
+		const row = document.createElement("span");
+		if (numbered) row.textContent = String(line);
+		if (highlighted.has(line)) row.dataset.highlighted = "";
+		layer.append(row);
+	}
+	return layer;
+};
+
+/**
+ * Give the block a header bar with its title and language badge
+ */
+const addHeader = (
+	pre: HTMLElement,
+	title: string | undefined,
+	language: string | undefined,
+): void => {
+	// The copy button wrapper, when juice-copy-code.js ran first
+	const parent = pre.parentElement;
+	const block = parent?.hasAttribute("data-copy-code") ? parent : pre;
+
+	let caption =
+		block.parentElement?.tagName === "FIGURE"
+			? block.parentElement.querySelector(":scope > figcaption")
+			: null;
+
+	if (!caption) {
+		caption = document.createElement("figcaption");
+		if (title) caption.append(title);
+
+		if (block.parentElement?.tagName === "FIGURE") {
+			block.before(caption);
+		} else {
+			const figure = document.createElement("figure");
+			block.replaceWith(figure);
+			figure.append(caption, block);
+		}
+	}
+
+	if (language) {
+		const badge = document.createElement("span");
+		badge.dataset.language = language;
+		badge.textContent = language;
+		caption.append(badge);
+	}
+};
+
+/**
+ * Enhance every code block under root
+ */
+function enhanceCodeBlocks(root: ParentNode = document): void {
+	for (const pre of Array.from(root.querySelectorAll("pre"))) {
+		const code = pre.querySelector(":scope > code");
+		if (!code) continue;
+
+		const title = pre.dataset.title;
+		const language = languageOf(pre, code);
+		if (title || language) addHeader(pre, title, language);
+
+		const numbered = pre.hasAttribute("data-line-numbers");
+		const spec = pre.dataset.lines;
+		if (!numbered && spec === undefined) continue;
+
+		// A trailing newline doesn't start another line
+		const count = (code.textContent ?? "")
+			.replace(/\n$/, "")
+			.split("\n").length;
+		const highlighted = parseLines(spec ?? "", count);
+
+		if (highlighted.size > 0) {
+			code.before(lineLayer("data-line-highlights", count, highlighted, false));
+		}
+		if (numbered) {
+			code.before(lineLayer("data-line-gutter", count, highlighted, true));
+		}
+	}
+}
+
+if (typeof document !== "undefined") {
+	if (document.readyState === "loading") {
+		document.addEventListener("DOMContentLoaded", () => enhanceCodeBlocks());
+	} else {
+		enhanceCodeBlocks();
+	}
+}
@@ -0,0 +1,13 @@
+/**
+ * juice.css theme color schemes
+ * Auto-generated from src/lib/tokens.ts
+ * DO NOT EDIT DIRECTLY - regenerate with: bun run build
+ */
+
+/** color-scheme of the built-in themes */
+export const COLOR_SCHEMES: Record<string, "light" | "dark"> = {
+	light: "light",
+	dark: "dark",
+	"high-contrast": "light",
+	sepia: "light",
+};
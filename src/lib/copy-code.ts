@@ -0,0 +1,125 @@
+/**
+ * juice.css Copy Code
+ * Progressive enhancement for <pre><code> blocks: wraps each in a
+ * <div data-copy-code> with a Copy button, which base.css shows on hover, on
+ * keyboard focus and always on touch screens.
+ *
+ * The result ("Copied" or "Copy failed") is announced through a polite
+ * aria-live region. Pages without the async clipboard API - plain http, older
+ * browsers - copy through a hidden textarea instead.
+ *
+ * Built to out/juice-copy-code.js, which runs once on load.
+ * Add data-no-copy to a <pre> to leave it without a button.
+ */
+
+/** How long the button reports the result */
+const RESULT_DURATION = 2000;
+
+/**
+ * The page's live region, created before the first button - screen readers
+ * can miss changes to a region added just before them
+ */
+const statusRegion = (): HTMLElement => {
+	let region = document.querySelector<HTMLElement>("[data-copy-status]");
+	if (!region) {
+		region = document.createElement("div");
+		region.dataset.copyStatus = "";
+		region.setAttribute("role", "status");
+		region.setAttribute("aria-live", "polite");
+		document.body.append(region);
+	}
+	return region;
+};
+
+/**
+ * Copy through a selected textarea - for pages without navigator.clipboard
+ */
+const copyWithSelection = (text: string): void => {
+	const active = document.activeElement as HTMLElement | null;
+	const textarea = document.createElement("textarea");
+	textarea.value = text;
+	textarea.readOnly = true;
+	// Out of sight, but still selectable
+	textarea.style.position = "fixed";
+	textarea.style.opacity = "0";
+	document.body.append(textarea);
+	textarea.select();
+
+	const copied = document.execCommand("copy");
+	textarea.remove();
+	active?.focus();
+	if (!copied) throw new Error("Copy command was rejected");
+};
+
+async function copyText(text: string): Promise<void> {
+	try {
+		await navigator.clipboard.writeText(text);
+	} catch {
+		// Missing on insecure origins, or denied - fall back to a selection
+		copyWithSelection(text);
+	}
+}
+
+/**
+ * Announce a message to screen readers
+ */
+const announce = (region: HTMLElement, message: string): void => {
+	// Clear first, so copying twice is announced twice
+	region.textContent = "";
+	requestAnimationFrame(() => {
+		region.textContent = message;
+	});
+};
+
+/**
+ * Add a copy button to every code block under root
+ * Blocks that already have one are skipped
+ */
+function addCopyButtons(root: ParentNode = document): void {
+	const blocks = root.querySelectorAll("pre:not([data-no-copy]) > code");
+	if (!blocks.length) return;
+	const region = statusRegion();
+
+	for (const code of Array.from(blocks)) {
+		const pre = code.parentElement!;
+		if (pre.parentElement?.hasAttribute("data-copy-code")) continue;
+
+		const wrapper = document.createElement("div");
+		wrapper.dataset.copyCode = "";
+		pre.replaceWith(wrapper);
+		wrapper.append(pre);
+
+		const button = document.createElement("button");
+		button.type = "button";
+		button.textContent = "Copy";
+		button.setAttribute("aria-label", "Copy code");
+
+		let reset: ReturnType<typeof setTimeout> | undefined;
+		button.addEventListener("click", async () => {
+			let result = "Copied";
+			try {
+				await copyText(code.textContent ?? "");
+			} catch {
+				result = "Copy failed";
+			}
+
+			announce(region, result);
+			button.textContent = result;
+			button.dataset.result = result === "Copied" ? "copied" : "failed";
+			clearTimeout(reset);
+			reset = setTimeout(() => {
+				button.textContent = "Copy";
+				delete button.dataset.result;
+			}, RESULT_DURATION);
+		});
+		wrapper.append(button);
+	}
+}
+
+if (typeof document !== "undefined") {
+	if (document.readyState === "loading") {
+		document.addEventListener("DOMContentLoaded", () => addCopyButtons());
+	} else {
+		addCopyButtons();
+	}
+}
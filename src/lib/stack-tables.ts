@@ -0,0 +1,55 @@
+/**
+ * juice.css Stacked Tables
+ * Progressive enhancement for <table data-stack>: copies each column's header
+ * text into a data-label attribute on its cells, which the stacked layout
+ * (max-width: 600px) shows as the label of every value.
+ *
+ * Without the script the cards still render, just without labels.
+ * Built to out/juice-stack-tables.js, which runs once on load - give tables
+ * added later their data-label attributes in the markup.
+ */
+
+/**
+ * Header text per column, expanded by colspan
+ */
+const columnLabels = (table: HTMLTableElement): string[] => {
+	const header = table.tHead?.rows[0];
+	if (!header) return [];
+
+	return Array.from(header.cells).flatMap((cell) =>
+		Array<string>(cell.colSpan).fill(cell.textContent?.trim() ?? ""),
+	);
+};
+
+/**
+ * Label the cells of every stacked table under root
+ * Cells that already have a data-label keep it
+ */
+function labelTables(root: ParentNode = document): void {
+	const tables = root.querySelectorAll<HTMLTableElement>("table[data-stack]");
+
+	for (const table of Array.from(tables)) {
+		const labels = columnLabels(table);
+
+		for (const body of Array.from(table.tBodies)) {
+			for (const row of Array.from(body.rows)) {
+				let column = 0;
+				for (const cell of Array.from(row.cells)) {
+					const label = labels[column];
+					if (label && !cell.hasAttribute("data-label")) {
+						cell.dataset.label = label;
+					}
+					column += cell.colSpan;
+				}
+			}
+		}
+	}
+}
+
+if (typeof document !== "undefined") {
+	if (document.readyState === "loading") {
+		document.addEventListener("DOMContentLoaded", () => labelTables());
+	} else {
+		labelTables();
+	}
+}
@@ -0,0 +1,19 @@
+/**
+ * juice.css Theme Init
+ * Applies the saved theme before first paint, so pages with a named theme
+ * don't flash the prefers-color-scheme one while the switcher loads.
+ * Sets data-theme on <html> and the matching <meta name="color-scheme">.
+ *
+ * Load it blocking at the end of <head> - no defer, async or type="module":
+ *   <script src="juice-theme-init.min.js"></script>
+ * or inline out/juice-theme-init.html to save the request.
+ *
+ * Reads the same localStorage key as <juice-theme-switcher>; set
+ * data-storage-key on the <script> to match a custom storage-key.
+ */
+
+import { applyTheme, DEFAULT_STORAGE_KEY, savedTheme } from "./theme-store";
+
+applyTheme(
+	savedTheme(document.currentScript?.dataset.storageKey || DEFAULT_STORAGE_KEY),
+);
@@ -0,0 +1,13 @@
+/**
+ * juice.css Theme Labels
+ * Shared by the theme switcher and the build (scripts/theme-files.ts)
+ */
+
+/**
+ * Human-readable label for a theme name, e.g. "high-contrast" → "High Contrast"
+ */
+export const themeLabel = (name: string) =>
+	name
+		.split("-")
+		.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+		.join(" ");
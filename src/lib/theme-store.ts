@@ -0,0 +1,104 @@
+/**
+ * juice.css Theme Store
+ * The visitor's theme preference: "auto" follows prefers-color-scheme, any
+ * other value is a theme name set as data-theme on <html>
+ *
+ * Named themes are remembered in localStorage, "auto" removes the entry.
+ * <meta name="color-scheme"> follows the preference, so the browser paints
+ * its own UI to match before the stylesheet loads.
+ *
+ * Saved preferences are also posted on a BroadcastChannel, for other tabs
+ * that storage events can't reach (see theme-sync.ts).
+ */
+
+import { COLOR_SCHEMES } from "./color-schemes";
+
+export { COLOR_SCHEMES } from "./color-schemes";
+
+/** "auto" or a theme name from the juice.css bundle, e.g. "dark" */
+export type ThemePreference = "auto" | (string & {});
+
+export const DEFAULT_STORAGE_KEY = "theme";
+
+// localStorage throws in sandboxed iframes and with storage disabled
+const storage = (): Storage | null => {
+	try {
+		return window.localStorage;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * BroadcastChannel name other tabs receive a storage key's preferences on
+ */
+export const themeChannel = (storageKey = DEFAULT_STORAGE_KEY) =>
+	`juice-theme:${storageKey}`;
+
+/**
+ * The saved preference, or "auto" when nothing is saved
+ */
+export function savedTheme(storageKey = DEFAULT_STORAGE_KEY): ThemePreference {
+	return storage()?.getItem(storageKey) || "auto";
+}
+
+/**
+ * The preference currently applied to the page
+ */
+export function currentTheme(): ThemePreference {
+	return document.documentElement.dataset.theme ?? "auto";
+}
+
+/**
+ * The color-scheme of a preference - "light dark" lets the browser pick, as
+ * for "auto" and generated themes that follow prefers-color-scheme
+ */
+export function colorScheme(theme: ThemePreference): string {
+	return COLOR_SCHEMES[theme] ?? "light dark";
+}
+
+/**
+ * Apply a preference to the page without saving it
+ */
+export function applyTheme(theme: ThemePreference): void {
+	const root = document.documentElement;
+
+	if (theme === "auto") {
+		// Let CSS prefers-color-scheme decide
+		root.removeAttribute("data-theme");
+	} else {
+		root.dataset.theme = theme;
+	}
+
+	let meta = document.querySelector<HTMLMetaElement>(
+		'meta[name="color-scheme"]',
+	);
+	if (!meta) {
+		meta = document.createElement("meta");
+		meta.name = "color-scheme";
+		document.head.append(meta);
+	}
+	meta.content = colorScheme(theme);
+}
+
+/**
+ * Apply a preference to the page and remember it
+ */
+export function setTheme(
+	theme: ThemePreference,
+	storageKey = DEFAULT_STORAGE_KEY,
+): void {
+	applyTheme(theme);
+
+	if (theme === "auto") {
+		storage()?.removeItem(storageKey);
+	} else {
+		storage()?.setItem(storageKey, theme);
+	}
+
+	if (typeof BroadcastChannel !== "undefined") {
+		const channel = new BroadcastChannel(themeChannel(storageKey));
+		channel.postMessage(theme);
+		channel.close();
+	}
+}
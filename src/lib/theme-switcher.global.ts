@@ -0,0 +1,7 @@
+/**
+ * IIFE entry for out/juice-theme-switcher.js - registers
+ * <juice-theme-switcher> without exporting anything
+ * (exports would only bloat a bundle nobody can import from)
+ */
+
+import "./theme-switcher";
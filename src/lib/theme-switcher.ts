@@ -0,0 +1,296 @@
+/**
+ * juice.css Theme Switcher
+ * <juice-theme-switcher> lets visitors pick "auto" or a named theme: it sets
+ * data-theme on <html> and remembers the choice in localStorage.
+ *
+ *   <juice-theme-switcher themes="auto light dark sepia" variant="segmented">
+ *   </juice-theme-switcher>
+ *
+ * Attributes: themes (default "auto light dark"), variant (select, segmented
+ * or toggle), storage-key (default "theme") and label (default "Theme").
+ * Fires a bubbling `themechange` event with the new and previous preference.
+ * Follows choices made in other tabs (see theme-sync.ts).
+ *
+ * Controls render into the light DOM so juice.css styles them like any other
+ * form element. A <select> already inside the element is kept, with its options
+ * matched to the themes, so the page works before the script loads.
+ *
+ * Built to out/juice-theme-switcher.js (registers the element) and
+ * out/juice-theme-switcher.mjs (also exports it). Without a bundler,
+ * JuiceThemeSwitcher.subscribe reaches subscribeTheme:
+ *   customElements.get("juice-theme-switcher").subscribe(listener)
+ */
+
+import { themeLabel } from "./theme-label";
+import {
+	applyTheme,
+	currentTheme,
+	DEFAULT_STORAGE_KEY,
+	savedTheme,
+	setTheme,
+	type ThemePreference,
+} from "./theme-store";
+import { subscribeTheme } from "./theme-sync";
+
+export {
+	applyTheme,
+	currentTheme,
+	savedTheme,
+	setTheme,
+	type ThemePreference,
+} from "./theme-store";
+export {
+	subscribeTheme,
+	type ThemeListener,
+	type ThemeState,
+	themeState,
+} from "./theme-sync";
+
+export type ThemeSwitcherVariant = "select" | "segmented" | "toggle";
+
+export interface ThemeChangeDetail {
+	theme: ThemePreference;
+	previous: ThemePreference;
+}
+
+declare global {
+	interface HTMLElementTagNameMap {
+		"juice-theme-switcher": JuiceThemeSwitcher;
+	}
+	interface HTMLElementEventMap {
+		themechange: CustomEvent<ThemeChangeDetail>;
+	}
+}
+
+export const THEME_SWITCHER_TAG = "juice-theme-switcher";
+
+const DEFAULT_THEMES = ["auto", "light", "dark"];
+
+const VARIANTS: ThemeSwitcherVariant[] = ["select", "segmented", "toggle"];
+
+// Unique radio group names across switchers on one page
+let instances = 0;
+
+export class JuiceThemeSwitcher extends HTMLElement {
+	static observedAttributes = ["themes", "variant", "storage-key", "label"];
+
+	/** subscribeTheme, for pages using the IIFE build */
+	static subscribe = subscribeTheme;
+
+	readonly #group = `juice-theme-${++instances}`;
+	#connected = false;
+	#unsubscribe?: () => void;
+
+	constructor() {
+		super();
+
+		this.addEventListener("change", (event) => {
+			const control = event.target;
+			if (
+				control instanceof HTMLSelectElement ||
+				control instanceof HTMLInputElement
+			) {
+				this.#choose(control.value);
+			}
+		});
+
+		this.addEventListener("click", (event) => {
+			if (
+				this.variant === "toggle" &&
+				event.target instanceof HTMLButtonElement
+			) {
+				const { themes } = this;
+				const next = (themes.indexOf(currentTheme()) + 1) % themes.length;
+				this.#choose(themes[next]!);
+			}
+		});
+	}
+
+	/** Themes to offer, in order - "auto" follows prefers-color-scheme */
+	get themes(): string[] {
+		const themes = this.getAttribute("themes")?.split(/\s+/).filter(Boolean);
+		return themes?.length ? themes : DEFAULT_THEMES;
+	}
+
+	set themes(themes: readonly string[]) {
+		this.setAttribute("themes", themes.join(" "));
+	}
+
+	get variant(): ThemeSwitcherVariant {
+		const variant = this.getAttribute("variant") as ThemeSwitcherVariant;
+		return VARIANTS.includes(variant) ? variant : "select";
+	}
+
+	set variant(variant: ThemeSwitcherVariant) {
+		this.setAttribute("variant", variant);
+	}
+
+	get storageKey(): string {
+		return this.getAttribute("storage-key") || DEFAULT_STORAGE_KEY;
+	}
+
+	set storageKey(key: string) {
+		this.setAttribute("storage-key", key);
+	}
+
+	/** Accessible name of the control */
+	get label(): string {
+		return this.getAttribute("label") || "Theme";
+	}
+
+	set label(label: string) {
+		this.setAttribute("label", label);
+	}
+
+	/** The preference applied to the page - setting it saves it too */
+	get theme(): ThemePreference {
+		return currentTheme();
+	}
+
+	set theme(theme: ThemePreference) {
+		this.#choose(theme);
+	}
+
+	connectedCallback(): void {
+		this.#connected = true;
+		this.#restore();
+		this.#render();
+		this.#subscribe();
+	}
+
+	disconnectedCallback(): void {
+		this.#connected = false;
+		this.#unsubscribe?.();
+	}
+
+	attributeChangedCallback(name: string): void {
+		if (!this.#connected) return;
+		this.#restore();
+		this.#render();
+		if (name === "storage-key") this.#subscribe();
+	}
+
+	/** Follow changes from other switchers, tabs and scripts */
+	#subscribe(): void {
+		this.#unsubscribe?.();
+		this.#unsubscribe = subscribeTheme(this.#update, this.storageKey);
+	}
+
+	/** Apply the saved preference if this switcher offers it - it's already saved */
+	#restore(): void {
+		const saved = savedTheme(this.storageKey);
+		if (saved !== currentTheme() && this.themes.includes(saved)) {
+			applyTheme(saved);
+		}
+	}
+
+	#choose(theme: ThemePreference): void {
+		const previous = currentTheme();
+		if (theme === previous) return;
+
+		setTheme(theme, this.storageKey);
+		this.dispatchEvent(
+			new CustomEvent<ThemeChangeDetail>("themechange", {
+				bubbles: true,
+				composed: true,
+				detail: { theme, previous },
+			}),
+		);
+	}
+
+	#render(): void {
+		const { themes } = this;
+
+		switch (this.variant) {
+			case "select": {
+				const existing = this.querySelector("select");
+				const select = existing ?? document.createElement("select");
+				// Keep options written in the markup, they may carry their own labels
+				const options = Array.from(select.options).filter(
+					(option) => !option.hasAttribute("data-unlisted"),
+				);
+				select.replaceChildren(
+					...themes.map(
+						(theme) =>
+							options.find((option) => option.value === theme) ??
+							new Option(themeLabel(theme), theme),
+					),
+				);
+				if (!existing) {
+					select.setAttribute("aria-label", this.label);
+					this.replaceChildren(select);
+				}
+				break;
+			}
+
+			case "segmented": {
+				const group = document.createElement("div");
+				group.setAttribute("role", "radiogroup");
+				group.setAttribute("aria-label", this.label);
+				for (const theme of themes) {
+					const radio = document.createElement("input");
+					radio.type = "radio";
+					radio.name = this.#group;
+					radio.value = theme;
+					const option = document.createElement("label");
+					option.append(radio, themeLabel(theme));
+					group.append(option);
+				}
+				this.replaceChildren(group);
+				break;
+			}
+
+			case "toggle": {
+				const button = document.createElement("button");
+				button.type = "button";
+				this.replaceChildren(button);
+				break;
+			}
+		}
+
+		this.#update();
+	}
+
+	/** Show the applied preference - runs for every theme change */
+	#update = (): void => {
+		const theme = currentTheme();
+
+		switch (this.variant) {
+			case "select": {
+				const select = this.querySelector("select");
+				if (!select) break;
+				// A theme this switcher doesn't offer, picked elsewhere, gets an
+				// option of its own until the next change - rather than a blank select
+				select.querySelector("option[data-unlisted]")?.remove();
+				if (!this.themes.includes(theme)) {
+					const option = new Option(themeLabel(theme), theme);
+					option.dataset.unlisted = "";
+					select.add(option);
+				}
+				select.value = theme;
+				break;
+			}
+
+			case "segmented":
+				for (const radio of Array.from(
+					this.querySelectorAll<HTMLInputElement>('input[type="radio"]'),
+				)) {
+					radio.checked = radio.value === theme;
+				}
+				break;
+
+			case "toggle": {
+				const button = this.querySelector("button");
+				if (button) button.textContent = `${this.label}: ${themeLabel(theme)}`;
+				break;
+			}
+		}
+	};
+}
+
+if (
+	typeof customElements !== "undefined" &&
+	!customElements.get(THEME_SWITCHER_TAG)
+) {
+	customElements.define(THEME_SWITCHER_TAG, JuiceThemeSwitcher);
+}
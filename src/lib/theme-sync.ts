@@ -0,0 +1,108 @@
+/**
+ * juice.css Theme Sync
+ * Keeps every open tab on the same theme and reports the theme a page
+ * actually shows - "auto" resolved through prefers-color-scheme - to
+ * components that draw their own colors, like charts or maps.
+ *
+ *   const unsubscribe = subscribeTheme(({ preference, resolved, colorScheme }) => {
+ *     chart.update({ dark: colorScheme === "dark" });
+ *   });
+ *
+ * Another tab's choice arrives as a storage event or, where localStorage is
+ * unavailable (sandboxed iframes, storage disabled), on the BroadcastChannel
+ * setTheme also posts to. Either way it's applied without being saved again.
+ */
+
+import {
+	applyTheme,
+	COLOR_SCHEMES,
+	currentTheme,
+	DEFAULT_STORAGE_KEY,
+	type ThemePreference,
+	themeChannel,
+} from "./theme-store";
+
+export interface ThemeState {
+	/** What the visitor chose - "auto" or a theme name */
+	preference: ThemePreference;
+	/** The theme showing: "auto" becomes "light" or "dark" */
+	resolved: string;
+	/** Whether the page is light or dark, for named themes too */
+	colorScheme: "light" | "dark";
+}
+
+export type ThemeListener = (state: ThemeState) => void;
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+const systemScheme = () => (matchMedia(DARK_QUERY).matches ? "dark" : "light");
+
+/**
+ * The theme showing for a preference (default: the applied one)
+ */
+export function themeState(preference = currentTheme()): ThemeState {
+	const resolved = preference === "auto" ? systemScheme() : preference;
+	return {
+		preference,
+		resolved,
+		// Generated themes have light and dark variants, like "auto"
+		colorScheme: COLOR_SCHEMES[resolved] ?? systemScheme(),
+	};
+}
+
+/**
+ * Call the listener now and whenever the resolved theme changes: a switch in
+ * this tab or another one, or the system color scheme changing under "auto".
+ * Returns a function that stops listening.
+ */
+export function subscribeTheme(
+	listener: ThemeListener,
+	storageKey = DEFAULT_STORAGE_KEY,
+): () => void {
+	let last = "";
+	const notify = () => {
+		const state = themeState();
+		const key = `${state.preference} ${state.colorScheme}`;
+		if (key === last) return;
+		last = key;
+		listener(state);
+	};
+
+	// Both a storage event and a message can bring the same change
+	const adopt = (theme: ThemePreference) => {
+		if (theme !== currentTheme()) applyTheme(theme);
+	};
+
+	const onStorage = (event: StorageEvent) => {
+		// key is null when another tab clears localStorage
+		if (event.key === storageKey || event.key === null) {
+			adopt(event.newValue || "auto");
+		}
+	};
+
+	const channel =
+		typeof BroadcastChannel === "undefined"
+			? null
+			: new BroadcastChannel(themeChannel(storageKey));
+	channel?.addEventListener("message", (event: MessageEvent) => {
+		if (typeof event.data === "string") adopt(event.data);
+	});
+
+	// data-theme changes, whoever makes them - setTheme, applyTheme or adopt
+	const observer = new MutationObserver(notify);
+	observer.observe(document.documentElement, {
+		attributeFilter: ["data-theme"],
+	});
+
+	const media = matchMedia(DARK_QUERY);
+	media.addEventListener("change", notify);
+	window.addEventListener("storage", onStorage);
+	notify();
+
+	return () => {
+		observer.disconnect();
+		media.removeEventListener("change", notify);
+		window.removeEventListener("storage", onStorage);
+		channel?.close();
+	};
+}
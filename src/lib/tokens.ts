@@ -0,0 +1,541 @@
+/**
+ * juice.css - Design Tokens
+ * Single source of truth for every CSS custom property
+ *
+ * `bun run build` generates from this file:
+ * - src/lib/variables-<theme>.css
+ * - out/tokens.json
+ * - out/tokens.js + out/tokens.d.ts (typed constants and var() helpers)
+ *
+ * Token names are written without the leading `--`.
+ */
+
+/** A token value, optionally with the trailing comment shown in the CSS */
+export type TokenValue = string | readonly [value: string, comment: string];
+
+export interface TokenGroup {
+	/** Comment above the group in the generated CSS */
+	title: string;
+	tokens: Record<string, TokenValue>;
+}
+
+export interface TokenSection {
+	/** Lines of the ==== banner above the groups */
+	banner: string[];
+	groups: TokenGroup[];
+}
+
+export interface ThemeSource extends TokenSection {
+	/** Lines of the file header comment */
+	header: string[];
+	/** CSS color-scheme - native controls and scrollbars follow it */
+	colorScheme: "light" | "dark";
+}
+
+/** Every theme gets a variables-<name>.css file */
+export type ThemeName = "light" | "dark" | "high-contrast" | "sepia";
+
+/**
+ * Typography, spacing, radius, z-index... - shared by every theme
+ * Emitted into variables-light.css, inherited by the other themes
+ */
+export const designTokens: TokenSection = {
+	banner: [
+		"DESIGN TOKENS - iOS-inspired defaults",
+		"Override these to customize your theme",
+	],
+	groups: [
+		{
+			title: "Typography Scale - iOS based (rem for scalability)",
+			tokens: {
+				"font-size-base": [
+					"1rem",
+					"16px default, scales with user preferences",
+				],
+				"font-size-large-title": ["2.125rem", "34px / 16px"],
+				"font-size-title-1": ["1.75rem", "28px / 16px"],
+				"font-size-title-2": ["1.375rem", "22px / 16px"],
+				"font-size-title-3": ["1.25rem", "20px / 16px"],
+				"font-size-headline": ["1.0625rem", "17px / 16px"],
+				"font-size-body": ["1.0625rem", "17px / 16px"],
+				"font-size-callout": ["1rem", "16px / 16px"],
+				"font-size-subhead": ["0.9375rem", "15px / 16px"],
+				"font-size-footnote": ["0.8125rem", "13px / 16px"],
+				"font-size-caption": ["0.75rem", "12px / 16px"],
+			},
+		},
+		{
+			title: "Line Heights - iOS ratios",
+			tokens: {
+				"line-height-tight": "1.2",
+				"line-height-base": ["1.47", "Apple HIG recommended (25/17)"],
+				"line-height-relaxed": "1.5",
+			},
+		},
+		{
+			title: "Font Weights",
+			tokens: {
+				"font-weight-regular": "400",
+				"font-weight-medium": "500",
+				"font-weight-semibold": "600",
+				"font-weight-bold": "700",
+			},
+		},
+		{
+			title: "Letter Spacing",
+			tokens: {
+				"letter-spacing-tight": "-0.024em",
+				"letter-spacing-normal": "0",
+				"letter-spacing-wide": "0.016em",
+			},
+		},
+		{
+			title: "Spacing Scale - 4px base unit",
+			tokens: {
+				"space-1": ["0.25rem", "4px"],
+				"space-2": ["0.5rem", "8px"],
+				"space-3": ["0.75rem", "12px"],
+				"space-4": ["1rem", "16px"],
+				"space-5": ["1.25rem", "20px"],
+				"space-6": ["1.5rem", "24px"],
+				"space-8": ["2rem", "32px"],
+				"space-9": ["2.1875rem", "35px - SwiftUI section spacing"],
+				"space-10": ["2.5rem", "40px"],
+			},
+		},
+		{
+			title: "Border Radius - iOS style",
+			tokens: {
+				"radius-sm": "6px",
+				"radius-md": "8px",
+				"radius-lg": "12px",
+				"radius-xl": "16px",
+				"radius-full": "9999px",
+			},
+		},
+		{
+			title: "Border Width",
+			tokens: {
+				"border-thin": ["0.5px", "iOS ultra-thin borders"],
+				"border-base": "1px",
+			},
+		},
+		{
+			title: "Touch Targets",
+			tokens: {
+				"tap-target-min": ["44px", "iOS minimum"],
+			},
+		},
+		{
+			title: "Transitions",
+			tokens: {
+				"animation-duration": "0.15s",
+				"animation-easing": "ease",
+			},
+		},
+		{
+			title: "Z-index Scale",
+			tokens: {
+				"z-base": "0",
+				"z-dropdown": "100",
+				"z-sticky": "200",
+				"z-modal": "300",
+				"z-popover": "400",
+				"z-tooltip": "500",
+			},
+		},
+	],
+};
+
+/**
+ * Color palette of every built-in theme
+ * light is the default; the others only override colors
+ */
+export const themes: Record<ThemeName, ThemeSource> = {
+	light: {
+		colorScheme: "light",
+		header: [
+			"juice.css - Light Theme Variables",
+			"Apple-inspired design tokens for light mode",
+		],
+		banner: ["COLOR PALETTE - Apple-inspired"],
+		groups: [
+			{
+				title: "Background Colors",
+				tokens: {
+					"background-body": "#ffffff",
+					background: "#f5f5f7",
+					"background-alt": "#ffffff",
+				},
+			},
+			{
+				title: "Text Colors",
+				tokens: {
+					"text-main": "#1d1d1f",
+					"text-bright": "#000000",
+					"text-muted": "#86868b",
+				},
+			},
+			{
+				title: "Interactive Colors",
+				tokens: {
+					links: "#007aff",
+					focus: "rgba(0, 122, 255, 0.4)",
+					selection: "rgba(0, 122, 255, 0.2)",
+				},
+			},
+			{
+				title: "UI Element Colors",
+				tokens: {
+					border: "#d2d2d7",
+					code: "#1d1d1f",
+					"code-bg": "#f5f5f7",
+					highlight: "rgba(255, 214, 10, 0.5)",
+				},
+			},
+			{
+				title: "Button Colors",
+				tokens: {
+					"button-base": "#007aff",
+					"button-hover": "#0051d5",
+					"button-text": "#ffffff",
+				},
+			},
+			{
+				title: "Form Colors",
+				tokens: {
+					"form-placeholder": "#86868b",
+					"form-text": "#1d1d1f",
+					"slider-thumb": "#ffffff",
+				},
+			},
+			{
+				title: "Scrollbar",
+				tokens: {
+					"scrollbar-thumb": "#d2d2d7",
+					"scrollbar-thumb-hover": "#86868b",
+				},
+			},
+			{
+				title: "Semantic Colors",
+				tokens: {
+					success: "#34c759",
+					warning: "#ff9500",
+					error: "#ff3b30",
+					variable: "#34c759",
+				},
+			},
+			{
+				title: "Select Arrow",
+				tokens: {
+					"select-arrow":
+						"url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%231d1d1f'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+				},
+			},
+			{
+				title: "Print Colors",
+				tokens: {
+					"print-bg": "#ffffff",
+					"print-text": "#000000",
+					"print-border": "#000000",
+					"print-alt-bg": "#f2f2f2",
+					"print-link": "#0000ff",
+				},
+			},
+		],
+	},
+	dark: {
+		colorScheme: "dark",
+		header: [
+			"juice.css - Dark Theme Variables",
+			"Apple-inspired design tokens for dark mode",
+			"",
+			"Note: Design tokens (typography, spacing, radius) are inherited from light theme.",
+			"Only color values are overridden here for dark mode.",
+		],
+		banner: [
+			"COLOR PALETTE - Apple-inspired Dark Mode",
+			"Design tokens remain the same across themes",
+		],
+		groups: [
+			{
+				title: "Background Colors",
+				tokens: {
+					"background-body": "#000000",
+					background: "#1c1c1e",
+					"background-alt": "#2c2c2e",
+				},
+			},
+			{
+				title: "Text Colors",
+				tokens: {
+					"text-main": "#f5f5f7",
+					"text-bright": "#ffffff",
+					"text-muted": "#8e8e93",
+				},
+			},
+			{
+				title: "Interactive Colors",
+				tokens: {
+					links: "#0a84ff",
+					focus: "rgba(10, 132, 255, 0.5)",
+					selection: "rgba(10, 132, 255, 0.3)",
+				},
+			},
+			{
+				title: "UI Element Colors",
+				tokens: {
+					border: "#38383a",
+					code: "#f5f5f7",
+					"code-bg": "#1c1c1e",
+					highlight: "rgba(255, 214, 10, 0.4)",
+				},
+			},
+			{
+				title: "Button Colors",
+				tokens: {
+					"button-base": "#0a84ff",
+					"button-hover": "#409cff",
+					"button-text": "#ffffff",
+				},
+			},
+			{
+				title: "Form Colors",
+				tokens: {
+					"form-placeholder": "#8e8e93",
+					"form-text": "#f5f5f7",
+					"slider-thumb": "#ffffff",
+				},
+			},
+			{
+				title: "Scrollbar",
+				tokens: {
+					"scrollbar-thumb": "#48484a",
+					"scrollbar-thumb-hover": "#636366",
+				},
+			},
+			{
+				title: "Semantic Colors",
+				tokens: {
+					success: "#30d158",
+					warning: "#ff9f0a",
+					error: "#ff453a",
+					variable: "#30d158",
+				},
+			},
+			{
+				title: "Select Arrow",
+				tokens: {
+					"select-arrow":
+						"url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23f5f5f7'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+				},
+			},
+			{
+				title: "Print Colors (same for all themes)",
+				tokens: {
+					"print-bg": "#ffffff",
+					"print-text": "#000000",
+					"print-border": "#000000",
+					"print-alt-bg": "#f2f2f2",
+					"print-link": "#0000ff",
+				},
+			},
+		],
+	},
+	"high-contrast": {
+		colorScheme: "light",
+		header: [
+			"juice.css - High Contrast Theme Variables",
+			"Maximum-legibility palette - every text pair meets WCAG AAA",
+			"",
+			"Note: Design tokens (typography, spacing, radius) are inherited from light theme.",
+			"Only color values are overridden here.",
+		],
+		banner: [
+			"COLOR PALETTE - Apple-inspired High Contrast",
+			"Design tokens remain the same across themes",
+		],
+		groups: [
+			{
+				title: "Background Colors",
+				tokens: {
+					"background-body": "#ffffff",
+					background: "#ffffff",
+					"background-alt": "#f2f2f2",
+				},
+			},
+			{
+				title: "Text Colors",
+				tokens: {
+					"text-main": "#000000",
+					"text-bright": "#000000",
+					"text-muted": "#3a3a3c",
+				},
+			},
+			{
+				title: "Interactive Colors",
+				tokens: {
+					links: "#0040dd",
+					focus: "rgba(0, 64, 221, 0.6)",
+					selection: "rgba(0, 64, 221, 0.25)",
+				},
+			},
+			{
+				title: "UI Element Colors",
+				tokens: {
+					border: "#000000",
+					code: "#000000",
+					"code-bg": "#f2f2f2",
+					highlight: "rgba(255, 214, 10, 0.8)",
+				},
+			},
+			{
+				title: "Button Colors",
+				tokens: {
+					"button-base": "#0040dd",
+					"button-hover": "#002b99",
+					"button-text": "#ffffff",
+				},
+			},
+			{
+				title: "Form Colors",
+				tokens: {
+					"form-placeholder": "#3a3a3c",
+					"form-text": "#000000",
+					"slider-thumb": "#ffffff",
+				},
+			},
+			{
+				title: "Scrollbar",
+				tokens: {
+					"scrollbar-thumb": "#3a3a3c",
+					"scrollbar-thumb-hover": "#000000",
+				},
+			},
+			{
+				title: "Semantic Colors",
+				tokens: {
+					success: "#248a3d",
+					warning: "#c93400",
+					error: "#d70015",
+					variable: "#248a3d",
+				},
+			},
+			{
+				title: "Select Arrow",
+				tokens: {
+					"select-arrow":
+						"url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23000000'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+				},
+			},
+			{
+				title: "Print Colors (same for all themes)",
+				tokens: {
+					"print-bg": "#ffffff",
+					"print-text": "#000000",
+					"print-border": "#000000",
+					"print-alt-bg": "#f2f2f2",
+					"print-link": "#0000ff",
+				},
+			},
+		],
+	},
+	sepia: {
+		colorScheme: "light",
+		header: [
+			"juice.css - Sepia Theme Variables",
+			"Warm, low-glare palette for long-form reading",
+			"",
+			"Note: Design tokens (typography, spacing, radius) are inherited from light theme.",
+			"Only color values are overridden here.",
+		],
+		banner: [
+			"COLOR PALETTE - Sepia reading mode",
+			"Design tokens remain the same across themes",
+		],
+		groups: [
+			{
+				title: "Background Colors",
+				tokens: {
+					"background-body": "#fbf4e6",
+					background: "#f4ecd8",
+					"background-alt": "#fbf6ea",
+				},
+			},
+			{
+				title: "Text Colors",
+				tokens: {
+					"text-main": "#433422",
+					"text-bright": "#2b2116",
+					"text-muted": "#6f5c47",
+				},
+			},
+			{
+				title: "Interactive Colors",
+				tokens: {
+					links: "#8a3f12",
+					focus: "rgba(138, 63, 18, 0.35)",
+					selection: "rgba(138, 63, 18, 0.2)",
+				},
+			},
+			{
+				title: "UI Element Colors",
+				tokens: {
+					border: "#dccfb4",
+					code: "#433422",
+					"code-bg": "#ede3cc",
+					highlight: "rgba(230, 180, 60, 0.45)",
+				},
+			},
+			{
+				title: "Button Colors",
+				tokens: {
+					"button-base": "#8a3f12",
+					"button-hover": "#6e320e",
+					"button-text": "#fffaf0",
+				},
+			},
+			{
+				title: "Form Colors",
+				tokens: {
+					"form-placeholder": "#6f5c47",
+					"form-text": "#433422",
+					"slider-thumb": "#fffaf0",
+				},
+			},
+			{
+				title: "Scrollbar",
+				tokens: {
+					"scrollbar-thumb": "#d3c4a5",
+					"scrollbar-thumb-hover": "#a89373",
+				},
+			},
+			{
+				title: "Semantic Colors",
+				tokens: {
+					success: "#4d7c2a",
+					warning: "#b86e00",
+					error: "#b3261e",
+					variable: "#4d7c2a",
+				},
+			},
+			{
+				title: "Select Arrow",
+				tokens: {
+					"select-arrow":
+						"url(\"data:image/svg+xml;charset=utf-8,%3C?xml version='1.0' encoding='utf-8'?%3E %3Csvg version='1.1' xmlns='http://www.w3.org/2000/svg' xmlns:xlink='http://www.w3.org/1999/xlink' height='62.5' width='116.9' fill='%23433422'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6 L58.5,52.7 L7.4,1.6 C5.8,0 3.2,0 1.6,1.6 C0,3.2 0,5.8 1.6,7.4 L55.5,61.3 C56.3,62.1 57.3,62.5 58.4,62.5 C59.4,62.5 60.5,62.1 61.3,61.3 L115.2,7.4 C116.9,5.8 116.9,3.2 115.3,1.6Z'/%3E %3C/svg%3E\")",
+				},
+			},
+			{
+				title: "Print Colors (same for all themes)",
+				tokens: {
+					"print-bg": "#ffffff",
+					"print-text": "#000000",
+					"print-border": "#000000",
+					"print-alt-bg": "#f2f2f2",
+					"print-link": "#0000ff",
+				},
+			},
+		],
+	},
+};
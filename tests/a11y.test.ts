@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium } from "playwright";
+import { THEMES } from "../src/demo/theme-list";
+import type { ThemeName } from "../src/lib/tokens";
+import {
+	type A11yViolation,
+	acceptedContrast,
+	axeViolations,
+	focusViolations,
+	formatA11yReport,
+} from "./axe";
+import { applyTheme, FIXTURES, loadFixture } from "./fixtures";
+import {
+	BASE_URL,
+	BROWSER_OPTIONS,
+	CONTEXT_OPTIONS,
+	DEVICE_VIEWPORTS,
+} from "./test-config";
+
+/**
+ * Accessibility Audit Tests
+ * Runs axe-core against the demo and every fixture page, under each theme at
+ * every device size. Fails on color contrast, invisible focus, landmark and
+ * form label violations, reported per page and element.
+ */
+
+interface ThemeCase {
+	name: string;
+	colorScheme: "light" | "dark";
+	theme: "auto" | ThemeName;
+	/** Variables the page resolves to - picks the accepted contrast pairs */
+	palette: ThemeName;
+}
+
+// System light and dark, plus every other theme forced through data-theme
+const THEME_CASES: ThemeCase[] = [
+	{ name: "light", colorScheme: "light", theme: "auto", palette: "light" },
+	{ name: "dark", colorScheme: "dark", theme: "auto", palette: "dark" },
+	...THEMES.filter(({ name }) => name !== "light").map(({ name }) => ({
+		name: `data-theme-${name}`,
+		colorScheme: "light" as const,
+		theme: name,
+		palette: name,
+	})),
+];
+
+describe("Accessibility", () => {
+	let browser: Browser;
+	let accepted: Awaited<ReturnType<typeof acceptedContrast>>;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		accepted = await acceptedContrast();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	for (const viewport of DEVICE_VIEWPORTS) {
+		describe(`${viewport.name} (${viewport.width}x${viewport.height})`, () => {
+			for (const theme of THEME_CASES) {
+				test(`${theme.name} pages should have no violations`, async () => {
+					const context = await browser.newContext({
+						...CONTEXT_OPTIONS,
+						viewport: { width: viewport.width, height: viewport.height },
+						colorScheme: theme.colorScheme,
+					});
+					const page = await context.newPage();
+					const pages: Record<string, A11yViolation[]> = {};
+
+					const audit = async (name: string) => {
+						pages[name] = [
+							...(await axeViolations(page, accepted[theme.palette])),
+							...(await focusViolations(page)),
+						];
+					};
+
+					try {
+						await page.goto(BASE_URL, { waitUntil: "networkidle" });
+						await applyTheme(page, theme.theme);
+						await audit("demo");
+
+						for (const name of FIXTURES) {
+							await loadFixture(page, name, { theme: theme.theme });
+							await audit(`fixtures/${name}.html`);
+						}
+					} finally {
+						await context.close();
+					}
+
+					expect(formatA11yReport(pages)).toBe("");
+				}, 120_000);
+			}
+		});
+	}
+});
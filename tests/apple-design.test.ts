@@ -1,6 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { type Browser, chromium, type Page } from "playwright";
-import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+import { loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
 
 /**
  * Apple Design System Compliance Tests
@@ -8,6 +9,7 @@ import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
  *
  * These tests verify FRAMEWORK behavior (what users get from juice.css),
  * not demo-specific features like the theme switcher UI.
+ * They run against the component fixtures in tests/fixtures/.
  */
 describe("Apple Design System Compliance", () => {
 	let browser: Browser;
@@ -17,7 +19,6 @@ describe("Apple Design System Compliance", () => {
 		browser = await chromium.launch(BROWSER_OPTIONS);
 		const context = await browser.newContext(CONTEXT_OPTIONS);
 		page = await context.newPage();
-		await page.goto(BASE_URL);
 	});
 
 	afterAll(async () => {
@@ -25,6 +26,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should use San Francisco font stack", async () => {
+		await loadFixture(page, "typography");
+
 		const fontFamily = await page.evaluate(() => {
 			const body = getComputedStyle(document.body);
 			return body.fontFamily;
@@ -38,6 +41,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should use antialiased font smoothing", async () => {
+		await loadFixture(page, "typography");
+
 		const smoothing = await page.evaluate(() => {
 			const body = getComputedStyle(document.body);
 			return body.getPropertyValue("-webkit-font-smoothing");
@@ -47,6 +52,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have Apple blue (#007aff) for primary actions", async () => {
+		await loadFixture(page, "forms");
+
 		const buttonColor = await page.evaluate(() => {
 			const button = document.querySelector("button[type='submit']");
 			if (!button) return null;
@@ -58,6 +65,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have generous border radius (≥8px) on interactive elements", async () => {
+		await loadFixture(page, "forms");
+
 		const borderRadii = await page.evaluate(() => {
 			const elements = {
 				button: document.querySelector("button"),
@@ -84,6 +93,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should use smooth transitions", async () => {
+		await loadFixture(page, "forms");
+
 		const transitions = await page.evaluate(() => {
 			const button = document.querySelector("button");
 			const input = document.querySelector("input");
@@ -100,6 +111,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have generous spacing and padding", async () => {
+		await loadFixture(page, "typography");
+
 		const spacing = await page.evaluate(() => {
 			const body = getComputedStyle(document.body);
 			const h1 = document.querySelector("h1");
@@ -116,6 +129,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have proper heading hierarchy with decreasing sizes", async () => {
+		await loadFixture(page, "typography");
+
 		const headingSizes = await page.evaluate(() => {
 			const headings = ["h1", "h2", "h3", "h4", "h5", "h6"];
 			return headings.map((tag) => {
@@ -135,6 +150,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should use subtle focus rings with blue tint", async () => {
+		await loadFixture(page, "forms");
+
 		const input = page.locator("input[type='text']").first();
 		await input.focus();
 		await page.waitForTimeout(100);
@@ -150,6 +167,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have clean, borderless fieldsets", async () => {
+		await loadFixture(page, "forms");
+
 		const fieldsetBorder = await page.evaluate(() => {
 			const fieldset = document.querySelector("fieldset");
 			if (!fieldset) return null;
@@ -162,6 +181,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should use SF Mono for code elements", async () => {
+		await loadFixture(page, "code");
+
 		const codeFontFamily = await page.evaluate(() => {
 			const code = document.querySelector("code");
 			if (!code) return null;
@@ -176,6 +197,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have hover states that darken buttons", async () => {
+		await loadFixture(page, "forms");
+
 		const button = page.locator("button[type='submit']").first();
 
 		const normalBg = await button.evaluate(
@@ -194,6 +217,8 @@ describe("Apple Design System Compliance", () => {
 	});
 
 	test("should have proper line-height for readability", async () => {
+		await loadFixture(page, "typography");
+
 		const lineHeight = await page.evaluate(() => {
 			const body = getComputedStyle(document.body);
 			const bodyLineHeight = parseFloat(body.lineHeight);
@@ -0,0 +1,259 @@
+/**
+ * Accessibility Audit
+ * Runs the locally installed axe-core (node_modules/axe-core/axe.min.js) inside
+ * a page, plus a keyboard check for visible focus, which axe can't test
+ *
+ * Color pairs the contrast baseline already accepts below AA
+ * (scripts/contrast-baseline.json) are tolerated - the build fails if they get
+ * worse, this suite fails on any other low-contrast text.
+ */
+
+import type axe from "axe-core";
+import type { Page } from "playwright";
+import { parseColor, toHex } from "../scripts/color";
+import {
+	auditContrast,
+	type Level,
+	loadBaseline,
+	pairId,
+} from "../scripts/contrast-audit";
+
+declare global {
+	interface Window {
+		axe: typeof axe;
+	}
+}
+
+export const AXE_SCRIPT = Bun.resolveSync(
+	"axe-core/axe.min.js",
+	import.meta.dir,
+);
+
+/** axe rules the suite fails on, by concern */
+export const AXE_RULES = {
+	contrast: ["color-contrast"],
+	landmarks: [
+		"landmark-one-main",
+		"landmark-unique",
+		"landmark-main-is-top-level",
+		"landmark-banner-is-top-level",
+		"landmark-contentinfo-is-top-level",
+		"landmark-complementary-is-top-level",
+		"landmark-no-duplicate-main",
+		"landmark-no-duplicate-banner",
+		"landmark-no-duplicate-contentinfo",
+		"region",
+	],
+	labels: [
+		"label",
+		"select-name",
+		"button-name",
+		"input-button-name",
+		"form-field-multiple-labels",
+	],
+};
+
+export interface A11yViolation {
+	/** axe rule id, or "focus-visible" */
+	rule: string;
+	/** CSS selector of the element */
+	target: string;
+	message: string;
+}
+
+/** "#rrggbb on #rrggbb" - how axe reports a color-contrast failure */
+type ColorPair = string;
+
+const BELOW_AA: Level[] = ["AA Large", "Fail"];
+
+/**
+ * Color pairs per theme that the contrast baseline records below AA
+ */
+export async function acceptedContrast(): Promise<
+	Record<string, Set<ColorPair>>
+> {
+	const [audits, baseline] = await Promise.all([
+		auditContrast(),
+		loadBaseline(),
+	]);
+
+	return Object.fromEntries(
+		audits.map(({ theme, results }) => [
+			theme,
+			new Set(
+				results
+					.filter((result) => {
+						const level = baseline[theme]?.[pairId(result)]?.level;
+						return level !== undefined && BELOW_AA.includes(level);
+					})
+					.map(
+						(result) =>
+							`${toHex(parseColor(result.foregroundValue)!)} on ${toHex(parseColor(result.backgroundValue)!)}`,
+					),
+			),
+		]),
+	);
+}
+
+/**
+ * Run the AXE_RULES against the page
+ * Color-contrast failures of an accepted color pair are left out
+ */
+export async function axeViolations(
+	page: Page,
+	accepted: Set<ColorPair> = new Set(),
+): Promise<A11yViolation[]> {
+	if (!(await page.evaluate(() => "axe" in window))) {
+		await page.addScriptTag({ path: AXE_SCRIPT });
+	}
+
+	// The demo's Prism token colors are its own styling, not juice.css
+	const results = await page.evaluate(
+		(rules) =>
+			window.axe.run(
+				{ exclude: [".token"] },
+				{
+					runOnly: { type: "rule", values: rules },
+					resultTypes: ["violations"],
+				},
+			),
+		Object.values(AXE_RULES).flat(),
+	);
+
+	return results.violations.flatMap((result) =>
+		result.nodes
+			.filter((node) => {
+				if (result.id !== "color-contrast") return true;
+				const data = node.any[0]?.data as
+					| { fgColor?: string; bgColor?: string }
+					| undefined;
+				return !accepted.has(`${data?.fgColor} on ${data?.bgColor}`);
+			})
+			.map((node) => ({
+				rule: result.id,
+				target: node.target.join(" "),
+				message: node.any[0]?.message ?? result.help,
+			})),
+	);
+}
+
+// Runs in the browser - the element (default: the focused one) as a path from
+// body or its nearest id, and everything focus can change about its look
+async function focusState(selector: string | null) {
+	const element = selector
+		? document.querySelector(selector)
+		: document.activeElement;
+	if (!element || element === document.body) return null;
+
+	const parts: string[] = [];
+	for (
+		let node: Element | null = element;
+		node && node !== document.body;
+		node = node.parentElement
+	) {
+		if (node.id) {
+			parts.unshift(`#${CSS.escape(node.id)}`);
+			break;
+		}
+		const tag = node.tagName;
+		const siblings = Array.from(node.parentElement?.children ?? []).filter(
+			(sibling) => sibling.tagName === tag,
+		);
+		parts.unshift(
+			siblings.length > 1
+				? `${tag.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})`
+				: tag.toLowerCase(),
+		);
+	}
+	if (!parts[0]?.startsWith("#")) parts.unshift("body");
+
+	// Focus styles usually transition - measure where they end up
+	await Promise.allSettled(
+		element.getAnimations().map((animation) => animation.finished),
+	);
+	const styles = getComputedStyle(element);
+
+	return {
+		target: parts.join(" > "),
+		style: [
+			styles.outlineStyle,
+			styles.outlineWidth,
+			styles.outlineColor,
+			styles.boxShadow,
+			styles.borderColor,
+			styles.backgroundColor,
+		].join("|"),
+	};
+}
+
+/**
+ * Tab through the page and report every element whose focus doesn't change
+ * its outline, box-shadow, border or background
+ */
+export async function focusViolations(
+	page: Page,
+	maxTabs = 200,
+): Promise<A11yViolation[]> {
+	const blur = () =>
+		page.evaluate(() => {
+			(document.activeElement as HTMLElement | null)?.blur();
+		});
+
+	await blur();
+
+	// Focused style per element
+	const focused = new Map<string, string>();
+	for (let i = 0; i < maxTabs; i++) {
+		await page.keyboard.press("Tab");
+		const current = await page.evaluate(focusState, null);
+
+		// Focus left the page - every element has been visited
+		if (!current) {
+			if (focused.size > 0) break;
+			continue;
+		}
+		if (!focused.has(current.target)) {
+			focused.set(current.target, current.style);
+		}
+	}
+
+	await blur();
+
+	const violations: A11yViolation[] = [];
+	for (const [target, style] of focused) {
+		const unfocused = await page.evaluate(focusState, target);
+		if (unfocused?.style === style) {
+			violations.push({
+				rule: "focus-visible",
+				target,
+				message: "Keyboard focus doesn't change how the element looks",
+			});
+		}
+	}
+
+	return violations;
+}
+
+/**
+ * One line per page, then the violations grouped by element
+ */
+export function formatA11yReport(
+	pages: Record<string, A11yViolation[]>,
+): string {
+	const lines: string[] = [];
+
+	for (const [name, violations] of Object.entries(pages)) {
+		if (violations.length === 0) continue;
+		lines.push(`${name}:`);
+
+		const byTarget = Map.groupBy(violations, (violation) => violation.target);
+		for (const [target, group] of byTarget) {
+			lines.push(`  ${target}`);
+			for (const { rule, message } of group) {
+				lines.push(`    - ${rule}: ${message}`);
+			}
+		}
+	}
+
+	return lines.join("\n");
+}
@@ -1,6 +1,12 @@
 import { beforeAll, describe, expect, test } from "bun:test";
 import { execSync } from "node:child_process";
 import { existsSync, readFileSync } from "node:fs";
+import {
+	buildJuice,
+	rtlPage,
+	themeInitTag,
+	withThemeInit,
+} from "../scripts/build";
 
 describe("Build Process", () => {
 	beforeAll(() => {
@@ -12,12 +18,84 @@ describe("Build Process", () => {
 		expect(existsSync("out/juice.css")).toBe(true);
 		expect(existsSync("out/juice-light.css")).toBe(true);
 		expect(existsSync("out/juice-dark.css")).toBe(true);
+		expect(existsSync("out/juice-high-contrast.css")).toBe(true);
+		expect(existsSync("out/juice-sepia.css")).toBe(true);
+		expect(existsSync("out/juice-scoped.css")).toBe(true);
+	});
+
+	test("should bundle the theme switcher as an IIFE and an ES module", () => {
+		const iife = readFileSync("out/juice-theme-switcher.js", "utf-8");
+		const esm = readFileSync("out/juice-theme-switcher.mjs", "utf-8");
+
+		expect(iife).toContain("customElements.define");
+		expect(iife).not.toMatch(/\bexport\b/);
+		expect(esm).toMatch(/export \{[^}]*JuiceThemeSwitcher/);
+		expect(existsSync("out/juice-theme-switcher.min.js")).toBe(true);
+		expect(existsSync("out/juice-theme-switcher.min.mjs")).toBe(true);
+	});
+
+	test("should bundle the code blocks script", () => {
+		const script = readFileSync("out/juice-code-blocks.min.js", "utf-8");
+
+		expect(script).toContain("data-line-gutter");
+		expect(script).not.toMatch(/\bexport\b/);
+	});
+
+	test("should bundle the copy code script", () => {
+		const script = readFileSync("out/juice-copy-code.min.js", "utf-8");
+
+		expect(script).toContain("data-copy-status");
+		expect(script).not.toMatch(/\bexport\b/);
+	});
+
+	test("should emit the theme init script and its inline snippet", () => {
+		const script = readFileSync("out/juice-theme-init.min.js", "utf-8");
+		const snippet = readFileSync("out/juice-theme-init.html", "utf-8");
+
+		expect(existsSync("out/juice-theme-init.js")).toBe(true);
+		expect(script).toContain("color-scheme");
+		expect(script.length).toBeLessThan(1024);
+		expect(snippet).toBe(`${themeInitTag(script)}\n`);
+	});
+
+	test("should inline the theme init script in the demo <head>", () => {
+		const html = readFileSync("dist/index.html", "utf-8");
+		const snippet = readFileSync("out/juice-theme-init.html", "utf-8").trim();
+
+		expect(html).toContain(`${snippet}</head>`);
+	});
+
+	test("themeInitTag should set and escape the storage key and escape closing tags", () => {
+		expect(themeInitTag('a("</script>")\n', "site-theme")).toBe(
+			'<script data-storage-key="site-theme">a("<\\/script>")</script>',
+		);
+		expect(themeInitTag("a()", '"><img src=x onerror=alert(1)>&')).toBe(
+			'<script data-storage-key="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;&amp;">a()</script>',
+		);
+		expect(
+			withThemeInit("<head><title></title></head>", "<script></script>"),
+		).toBe("<head><title></title><script></script></head>");
 	});
 
 	test("should generate HTML demo file in dist/", () => {
 		expect(existsSync("dist/index.html")).toBe(true);
 	});
 
+	test("should generate a right-to-left demo page in dist/", () => {
+		const html = readFileSync("dist/rtl.html", "utf-8");
+
+		expect(html).toMatch(/<html lang="en" dir="rtl">/);
+		expect(html.replace(' dir="rtl"', "")).toBe(
+			readFileSync("dist/index.html", "utf-8"),
+		);
+	});
+
+	test("rtlPage should replace an existing dir attribute", () => {
+		expect(rtlPage('<html dir="ltr" lang="he"><body></body></html>')).toBe(
+			'<html lang="he" dir="rtl"><body></body></html>',
+		);
+	});
+
 	test("CSS files should not be empty", () => {
 		const juiceCSS = readFileSync("out/juice.css", "utf-8");
 		const lightCSS = readFileSync("out/juice-light.css", "utf-8");
@@ -85,3 +163,111 @@ describe("Build Process", () => {
 		expect(juiceCSS).toContain("table");
 	});
 });
+
+describe("Programmatic Build API", () => {
+	test("should return every bundle with its output path", async () => {
+		const { outputs } = await buildJuice({
+			outDir: "tmp/css",
+			themes: ["auto", "light", "dark"],
+			write: false,
+		});
+
+		expect(outputs.map((output) => output.path)).toEqual([
+			"tmp/css/juice.css",
+			"tmp/css/juice.min.css",
+			"tmp/css/juice-light.css",
+			"tmp/css/juice-light.min.css",
+			"tmp/css/juice-dark.css",
+			"tmp/css/juice-dark.min.css",
+		]);
+		expect(existsSync("tmp/css/juice.css")).toBe(false);
+	});
+
+	test("should only emit the requested themes", async () => {
+		const { outputs } = await buildJuice({
+			themes: ["dark"],
+			minify: false,
+			write: false,
+		});
+
+		expect(outputs).toHaveLength(1);
+		expect(outputs[0]?.theme).toBe("dark");
+		expect(outputs[0]?.minified).toBe(false);
+		expect(outputs[0]?.css).toContain("--background-body: #000000");
+	});
+
+	test("should match the committed out/ files", async () => {
+		const { outputs } = await buildJuice({ write: false });
+
+		for (const output of outputs) {
+			expect(output.css).toBe(readFileSync(output.path, "utf-8"));
+		}
+	});
+
+	test("should emit a bundle for every discovered theme", async () => {
+		const { outputs } = await buildJuice({ minify: false, write: false });
+
+		expect(outputs.map((output) => output.theme)).toEqual([
+			"auto",
+			"light",
+			"dark",
+			"high-contrast",
+			"sepia",
+			"scoped",
+		]);
+	});
+
+	test("should add data-theme overrides for every theme to the auto bundle", async () => {
+		const { outputs } = await buildJuice({
+			themes: ["auto"],
+			minify: false,
+			write: false,
+		});
+		const css = outputs[0]!.css;
+
+		for (const theme of ["light", "dark", "high-contrast", "sepia"]) {
+			expect(css).toContain(`[data-theme="${theme}"] {`);
+		}
+	});
+
+	test("named themes should inherit the light design tokens", async () => {
+		const { outputs } = await buildJuice({
+			themes: ["sepia"],
+			minify: false,
+			write: false,
+		});
+		const css = outputs[0]!.css;
+
+		expect(css).toContain("--space-4: 1rem;");
+		expect(css).toContain("--background: #f4ecd8;");
+		expect(css.indexOf("--background: #f5f5f7")).toBeLessThan(
+			css.indexOf("--background: #f4ecd8"),
+		);
+	});
+
+	test("should accept configured theme files", async () => {
+		const { outputs } = await buildJuice({
+			themeFiles: {
+				light: "src/lib/variables-light.css",
+				reading: "src/lib/variables-sepia.css",
+			},
+			minify: false,
+			write: false,
+		});
+
+		expect(outputs.map((output) => output.path)).toEqual([
+			"out/juice.css",
+			"out/juice-light.css",
+			"out/juice-reading.css",
+			"out/juice-scoped.css",
+		]);
+		expect(outputs[0]?.css).toContain('[data-theme="reading"] {');
+		expect(outputs[0]?.css).not.toContain("prefers-color-scheme: dark");
+	});
+
+	test("should reject unknown themes", async () => {
+		await expect(
+			buildJuice({ themes: ["neon"], write: false }),
+		).rejects.toThrow('Unknown theme "neon"');
+	});
+});
@@ -0,0 +1,225 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium, type Page } from "playwright";
+import { loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * Code Block Tests
+ * Verifies out/juice-code-blocks.js and its base.css styles: header bars with
+ * titles and language badges, line numbers and highlighted lines
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the code-blocks fixture in tests/fixtures/.
+ */
+
+const CODE_BLOCKS_SCRIPT = "out/juice-code-blocks.js";
+const COPY_CODE_SCRIPT = "out/juice-copy-code.js";
+
+describe("Code Blocks", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	const open = async (...scripts: string[]) => {
+		await loadFixture(page, "code-blocks");
+		for (const path of scripts.length ? scripts : [CODE_BLOCKS_SCRIPT]) {
+			await page.addScriptTag({ path });
+		}
+	};
+
+	/** Row text of a line layer, with the highlighted rows marked */
+	const layer = (pre: string, name: string) =>
+		page.$eval(`${pre} > [${name}]`, (el) => ({
+			hidden: el.getAttribute("aria-hidden"),
+			rows: Array.from(el.children).map(
+				(row) =>
+					`${row.textContent}${row.hasAttribute("data-highlighted") ? "*" : ""}`,
+			),
+		}));
+
+	describe("Header bar", () => {
+		test("should show the title and a language badge from the class", async () => {
+			await open();
+
+			const header = await page.$eval("figure:has(#titled)", (figure) => ({
+				first: figure.firstElementChild?.tagName,
+				title: figure.querySelector("figcaption")?.firstChild?.textContent,
+				badge: figure.querySelector("figcaption [data-language]")?.textContent,
+			}));
+
+			expect(header).toEqual({
+				first: "FIGCAPTION",
+				title: "app.ts",
+				badge: "ts",
+			});
+		});
+
+		test("should join the header bar to the top of the block", async () => {
+			await open();
+
+			const join = await page.evaluate(() => {
+				const caption = document.querySelector(
+					"figure:has(#titled) > figcaption",
+				)!;
+				const pre = document.querySelector("#titled")!;
+				const styles = getComputedStyle(caption);
+				return {
+					gap:
+						pre.getBoundingClientRect().top -
+						caption.getBoundingClientRect().bottom,
+					display: styles.display,
+					textAlign: styles.textAlign,
+					preTopRadius: getComputedStyle(pre).borderTopLeftRadius,
+					badgeTransform: getComputedStyle(
+						caption.querySelector("[data-language]")!,
+					).textTransform,
+				};
+			});
+
+			expect(join).toEqual({
+				gap: 0,
+				display: "flex",
+				textAlign: "start",
+				preTopRadius: "0px",
+				badgeTransform: "uppercase",
+			});
+		});
+
+		test("a figure's own figcaption should be the header bar, without the script", async () => {
+			await loadFixture(page, "code-blocks");
+
+			const caption = await page.$eval("#captioned > figcaption", (el) => {
+				const styles = getComputedStyle(el);
+				return {
+					display: styles.display,
+					borderTop: Number.parseFloat(styles.borderTopWidth),
+				};
+			});
+
+			expect(caption.display).toBe("flex");
+			expect(caption.borderTop).toBeGreaterThan(0);
+		});
+
+		test("should add the badge to a figure's own figcaption", async () => {
+			await open();
+
+			const captions = await page.$eval("#captioned", (figure) => ({
+				count: figure.querySelectorAll("figcaption").length,
+				text: figure.querySelector("figcaption")?.textContent,
+			}));
+
+			expect(captions).toEqual({ count: 1, text: "Installbash" });
+		});
+
+		test("blocks without a title or language should stay as they are", async () => {
+			await open();
+
+			expect(
+				await page.$eval("#plain", (el) => el.parentElement?.tagName),
+			).toBe("MAIN");
+		});
+	});
+
+	describe("Lines", () => {
+		test("should number every line", async () => {
+			await open();
+
+			expect(await layer("#titled", "data-line-gutter")).toEqual({
+				hidden: "true",
+				rows: ["1", "2*", "3*", "4", "5"],
+			});
+		});
+
+		test("should highlight the data-lines rows", async () => {
+			await open();
+
+			expect(await layer("#highlighted", "data-line-highlights")).toEqual({
+				hidden: "true",
+				rows: ["*", "", "*"],
+			});
+			expect(await page.$$("#highlighted > [data-line-gutter]")).toHaveLength(
+				0,
+			);
+		});
+
+		test("line rows should line up with the lines of code", async () => {
+			await open();
+
+			const rows = await page.$eval("#titled", (pre) => {
+				const code = pre.querySelector("code")!.getBoundingClientRect();
+				const gutter = Array.from(
+					pre.querySelectorAll("[data-line-gutter] > span"),
+				).map((row) => row.getBoundingClientRect());
+				const highlights = Array.from(
+					pre.querySelectorAll("[data-line-highlights] > span"),
+				).map((row) => row.getBoundingClientRect());
+				return {
+					codeTop: code.top,
+					codeHeight: code.height,
+					gutterTop: gutter[0]!.top,
+					gutterHeight: gutter.at(-1)!.bottom - gutter[0]!.top,
+					highlightTop: highlights[0]!.top,
+					highlightWidth: highlights[0]!.width,
+					preWidth: pre.getBoundingClientRect().width,
+				};
+			});
+
+			expect(rows.gutterTop).toBeCloseTo(rows.codeTop, 0);
+			expect(rows.highlightTop).toBeCloseTo(rows.codeTop, 0);
+			expect(rows.gutterHeight).toBeCloseTo(rows.codeHeight, 0);
+			// Highlights run edge to edge, across the gutter
+			expect(rows.highlightWidth).toBeGreaterThanOrEqual(rows.preWidth - 4);
+		});
+
+		test("highlighted lines should be tinted with the link color", async () => {
+			await open();
+
+			const row = await page.$eval(
+				"#highlighted [data-line-highlights] > [data-highlighted]",
+				(el) => {
+					const styles = getComputedStyle(el);
+					return {
+						background: styles.backgroundColor,
+						shadow: styles.boxShadow,
+					};
+				},
+			);
+
+			expect(row.background).not.toBe("rgba(0, 0, 0, 0)");
+			expect(row.shadow).toContain("inset");
+		});
+
+		test("copying should leave the line numbers out", async () => {
+			await open(CODE_BLOCKS_SCRIPT, COPY_CODE_SCRIPT);
+			await page.evaluate(() => {
+				window.name = "";
+				Object.defineProperty(navigator, "clipboard", {
+					value: {
+						writeText: async (text: string) => {
+							window.name = text;
+						},
+					},
+				});
+			});
+
+			await page.click("[data-copy-code]:has(#titled) > button", {
+				force: true,
+			});
+			await page.waitForFunction(() => window.name !== "");
+
+			expect(await page.evaluate(() => window.name)).toStartWith(
+				'import { serve } from "bun";\n\nserve({',
+			);
+		});
+	});
+});
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import {
+	auditContrast,
+	auditTheme,
+	CONTRAST_PAIRS,
+	checkContrast,
+	findRegressions,
+	levelFor,
+	loadBaseline,
+	parseVariables,
+	RATIO_TOLERANCE,
+	toBaseline,
+} from "../scripts/contrast-audit";
+import { assembleBase } from "../scripts/modules";
+
+/**
+ * Contrast Audit Tests
+ * Verifies WCAG ratios for the color pairs base.css renders in every theme
+ */
+describe("Contrast Audit", () => {
+	test("should parse custom properties from a variables file", () => {
+		const variables = parseVariables(
+			":root {\n\t/* Text */\n\t--text-main: #1d1d1f; /* note */\n\t--gap: 1rem;\n}",
+		);
+
+		expect(variables).toEqual({ "--text-main": "#1d1d1f", "--gap": "1rem" });
+	});
+
+	test("should resolve every pair in every theme", async () => {
+		const audits = await auditContrast();
+
+		expect(audits.map((audit) => audit.theme)).toEqual([
+			"light",
+			"dark",
+			"high-contrast",
+			"sepia",
+		]);
+		for (const audit of audits) {
+			expect(audit.results).toHaveLength(CONTRAST_PAIRS.length);
+		}
+	});
+
+	test("should only audit variables base.css uses", async () => {
+		const base = await assembleBase("src/lib/base.css");
+
+		for (const pair of CONTRAST_PAIRS) {
+			expect(base).toContain(`var(${pair.foreground})`);
+		}
+	});
+
+	test("should compute WCAG ratios", () => {
+		const { results } = auditTheme("test", {
+			"--text-main": "#000000",
+			"--text-bright": "#ffffff",
+			"--text-muted": "#777777",
+			"--links": "#007aff",
+			"--background": "#ffffff",
+			"--background-body": "#ffffff",
+			"--background-alt": "#ffffff",
+			"--button-text": "#ffffff",
+			"--button-base": "#007aff",
+			"--button-hover": "#0051d5",
+			"--form-text": "#000000",
+			"--form-placeholder": "#767676",
+			"--code": "#000000",
+			"--code-bg": "#ffffff",
+			"--error": "#d70015",
+		});
+
+		expect(results[0]?.ratio).toBe(21);
+		expect(results[0]?.level).toBe("AAA");
+		expect(results[1]?.ratio).toBe(1);
+		expect(results[1]?.level).toBe("Fail");
+	});
+
+	test("should map ratios to WCAG levels", () => {
+		expect(levelFor(7)).toBe("AAA");
+		expect(levelFor(4.5)).toBe("AA");
+		expect(levelFor(3)).toBe("AA Large");
+		expect(levelFor(2.99)).toBe("Fail");
+	});
+
+	test("should keep core text readable at AAA", async () => {
+		for (const { theme, results } of await auditContrast()) {
+			const bodyText = results.find(
+				(result) =>
+					result.foreground === "--text-main" &&
+					result.background === "--background",
+			);
+			expect(bodyText?.level, theme).toBe("AAA");
+		}
+	});
+
+	test("should not regress from the committed baseline", async () => {
+		const regressions = findRegressions(
+			await auditContrast(),
+			await loadBaseline(),
+		);
+
+		expect(regressions).toEqual([]);
+	});
+
+	test("should detect a regression", async () => {
+		const audits = await auditContrast();
+		const baseline = toBaseline(audits);
+		const light = parseVariables(
+			readFileSync("src/lib/variables-light.css", "utf-8"),
+		);
+		const regressed = auditTheme("light", {
+			...light,
+			"--text-main": "#aaaaaa",
+		});
+
+		expect(findRegressions([regressed], baseline)).toEqual([
+			{
+				theme: "light",
+				pair: "--text-main on --background",
+				expected: "AAA",
+				actual: "Fail",
+				expectedRatio: baseline.light!["--text-main on --background"]!.ratio,
+				ratio: regressed.results[0]!.ratio,
+			},
+		]);
+	});
+
+	test("should detect a ratio drop within the same level", async () => {
+		const audits = await auditContrast();
+		const pair = "--text-main on --background";
+		const { ratio } = toBaseline(audits).light![pair]!;
+
+		const baseline = toBaseline(audits);
+		baseline.light![pair]!.ratio = ratio + 1;
+		expect(findRegressions(audits, baseline)).toEqual([
+			{
+				theme: "light",
+				pair,
+				expected: "AAA",
+				actual: "AAA",
+				expectedRatio: ratio + 1,
+				ratio,
+			},
+		]);
+
+		// Within the tolerance
+		baseline.light![pair]!.ratio = ratio + RATIO_TOLERANCE / 2;
+		expect(findRegressions(audits, baseline)).toEqual([]);
+	});
+
+	test("build check should fail on a regressed source before it is written", async () => {
+		const light = readFileSync("src/lib/variables-light.css", "utf-8");
+		const regressed = light.replace(
+			"--text-main: #1d1d1f;",
+			"--text-main: #aaaaaa;",
+		);
+
+		expect(await checkContrast({ light })).toBe(true);
+		expect(await checkContrast({ light: regressed })).toBe(false);
+	});
+});
@@ -0,0 +1,243 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium, type Page } from "playwright";
+import { loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * Copy Code Tests
+ * Verifies out/juice-copy-code.js and its base.css styles: the buttons show
+ * for mouse, keyboard and touch users, copy with or without the async
+ * clipboard API and announce the result
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the code fixture in tests/fixtures/.
+ */
+
+const COPY_CODE_SCRIPT = "out/juice-copy-code.js";
+
+const CODE = `<link rel="stylesheet" href="juice.css" />
+
+body {
+    max-width: 800px;
+}`;
+
+describe("Copy Code", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	const open = async (target = page) => {
+		await loadFixture(target, "code");
+		await target.addScriptTag({ path: COPY_CODE_SCRIPT });
+	};
+
+	/** Record what gets copied in window.name instead of the real clipboard */
+	const stubClipboard = () =>
+		page.evaluate(() => {
+			Object.defineProperty(navigator, "clipboard", {
+				value: {
+					writeText: async (text: string) => {
+						window.name = text;
+					},
+				},
+			});
+		});
+
+	const opacity = (target = page) =>
+		target.$eval(
+			"[data-copy-code] > button",
+			(el) => getComputedStyle(el).opacity,
+		);
+
+	const status = () =>
+		page.waitForFunction(
+			() => document.querySelector("[data-copy-status]")?.textContent,
+		);
+
+	test("should add a button to code blocks without data-no-copy", async () => {
+		await open();
+
+		const blocks = await page.evaluate(() =>
+			Array.from(document.querySelectorAll("pre")).map((pre) => ({
+				wrapped: pre.parentElement!.hasAttribute("data-copy-code"),
+				button: pre.nextElementSibling?.getAttribute("aria-label") ?? null,
+			})),
+		);
+
+		expect(blocks).toEqual([
+			{ wrapped: true, button: "Copy code" },
+			{ wrapped: false, button: null },
+		]);
+	});
+
+	test("should style the button without inline styles", async () => {
+		await open();
+
+		const button = await page.$eval("[data-copy-code] > button", (el) => ({
+			inline: el.getAttribute("style"),
+			position: getComputedStyle(el).position,
+		}));
+
+		expect(button).toEqual({ inline: null, position: "absolute" });
+	});
+
+	test("should show the button on hover", async () => {
+		await open();
+		expect(await opacity()).toBe("0");
+
+		await page.hover("[data-copy-code] pre");
+		await page.waitForTimeout(500);
+
+		expect(await opacity()).toBe("1");
+	});
+
+	test("should show the button to keyboard users", async () => {
+		await open();
+
+		await page.focus("[data-copy-code] > button");
+		await page.waitForTimeout(500);
+
+		expect(await opacity()).toBe("1");
+	});
+
+	test("should always show the button on touch screens", async () => {
+		const context = await browser.newContext({
+			...CONTEXT_OPTIONS,
+			hasTouch: true,
+			isMobile: true,
+		});
+		const touch = await context.newPage();
+		await open(touch);
+
+		const visible = await opacity(touch);
+		await context.close();
+
+		expect(visible).toBe("1");
+	});
+
+	test("should add the live region before anything is copied", async () => {
+		await open();
+
+		const region = await page.$eval("[data-copy-status]", (el) => ({
+			live: el.getAttribute("aria-live"),
+			text: el.textContent,
+		}));
+		expect(region).toEqual({ live: "polite", text: "" });
+	});
+
+	test("should copy the code and announce it", async () => {
+		await open();
+		await stubClipboard();
+
+		await page.click("[data-copy-code] > button");
+		await status();
+
+		const result = await page.evaluate(() => {
+			const region = document.querySelector("[data-copy-status]")!;
+			return {
+				copied: window.name,
+				button: document.querySelector("[data-copy-code] > button")
+					?.textContent,
+				role: region.getAttribute("role"),
+				live: region.getAttribute("aria-live"),
+				announced: region.textContent,
+			};
+		});
+
+		expect(result).toEqual({
+			copied: CODE,
+			button: "Copied",
+			role: "status",
+			live: "polite",
+			announced: "Copied",
+		});
+	});
+
+	test("should fall back to a selection without navigator.clipboard", async () => {
+		await open();
+		await page.evaluate(() => {
+			Object.defineProperty(navigator, "clipboard", { value: undefined });
+			document.execCommand = (command: string) => {
+				const selected = document.activeElement as HTMLTextAreaElement;
+				window.name = `${command}:${selected.value}`;
+				return true;
+			};
+		});
+
+		await page.click("[data-copy-code] > button");
+		await status();
+
+		const result = await page.evaluate(() => ({
+			copied: window.name,
+			textareas: document.querySelectorAll("textarea").length,
+			focused: document.activeElement?.matches("[data-copy-code] > button"),
+		}));
+
+		expect(result).toEqual({
+			copied: `copy:${CODE}`,
+			textareas: 0,
+			focused: true,
+		});
+	});
+
+	test("should announce when copying fails", async () => {
+		await open();
+		await page.evaluate(() => {
+			Object.defineProperty(navigator, "clipboard", { value: undefined });
+			document.execCommand = () => false;
+		});
+
+		await page.click("[data-copy-code] > button");
+		await status();
+
+		expect(await page.$eval("[data-copy-status]", (el) => el.textContent)).toBe(
+			"Copy failed",
+		);
+		expect(await page.textContent("[data-copy-code] > button")).toBe(
+			"Copy failed",
+		);
+	});
+
+	test("should reset the button after reporting", async () => {
+		await open();
+		await stubClipboard();
+		await page.click("[data-copy-code] > button");
+
+		await page.waitForFunction(
+			() =>
+				document.querySelector("[data-copy-code] > button")?.textContent ===
+				"Copy",
+			undefined,
+			{ timeout: 5000 },
+		);
+
+		expect(
+			await page.$eval("[data-copy-code] > button", (el) =>
+				el.hasAttribute("data-result"),
+			),
+		).toBe(false);
+	});
+
+	test("should be hidden in print", async () => {
+		await open();
+		await page.emulateMedia({ media: "print" });
+
+		const display = await page.$eval(
+			"[data-copy-code] > button",
+			(el) => getComputedStyle(el).display,
+		);
+		await page.emulateMedia({ media: "screen" });
+
+		expect(display).toBe("none");
+	});
+});
@@ -1,6 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { type Browser, chromium, type Page } from "playwright";
-import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+import { FIXTURES, loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
 
 /**
  * CSS Best Practices Tests
@@ -8,6 +9,7 @@ import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
  *
  * These tests verify FRAMEWORK behavior (what users get from juice.css),
  * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
  */
 describe("CSS Best Practices", () => {
 	let browser: Browser;
@@ -17,7 +19,6 @@ describe("CSS Best Practices", () => {
 		browser = await chromium.launch(BROWSER_OPTIONS);
 		const context = await browser.newContext(CONTEXT_OPTIONS);
 		page = await context.newPage();
-		await page.goto(BASE_URL);
 	});
 
 	afterAll(async () => {
@@ -26,6 +27,8 @@ describe("CSS Best Practices", () => {
 
 	describe("CSS Variables", () => {
 		test("should define all required CSS variables", async () => {
+			await loadFixture(page, "typography");
+
 			const cssVars = await page.evaluate(() => {
 				const root = getComputedStyle(document.documentElement);
 				const requiredVars = [
@@ -55,6 +58,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("CSS variables should have valid color values", async () => {
+			await loadFixture(page, "typography");
+
 			const colorVars = await page.evaluate(() => {
 				const root = getComputedStyle(document.documentElement);
 				return {
@@ -76,66 +81,51 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should support theme switching via CSS variables", async () => {
-			// Get initial background
-			const _initialBg = await page.evaluate(() =>
-				getComputedStyle(document.documentElement).getPropertyValue(
-					"--background-body",
-				),
-			);
+			const backgroundBody = () =>
+				page.evaluate(() =>
+					getComputedStyle(document.documentElement)
+						.getPropertyValue("--background-body")
+						.trim(),
+				);
 
-			// Click dark button
-			const darkButton = page.locator("#btn-dark");
-			if ((await darkButton.count()) > 0) {
-				await darkButton.click();
-				await page.waitForTimeout(200);
+			await loadFixture(page, "typography", { theme: "light" });
+			const lightBg = await backgroundBody();
 
-				const themeAttr = await page.evaluate(() =>
-					document.documentElement.getAttribute("data-theme"),
-				);
+			await loadFixture(page, "typography", { theme: "dark" });
+			const darkBg = await backgroundBody();
 
-				// Should have data-theme attribute set
-				expect(themeAttr).toBe("dark");
-			}
+			// data-theme overrides the variables without any other change
+			expect(darkBg).toBeTruthy();
+			expect(darkBg).not.toBe(lightBg);
 		});
 	});
 
 	describe("Classless Design", () => {
 		test("should have minimal classes in HTML", async () => {
-			const classUsage = await page.evaluate(() => {
-				const allElements = document.querySelectorAll("*");
-				let withClasses = 0;
-
-				for (const el of Array.from(allElements)) {
-					if (
-						el.className &&
-						typeof el.className === "string" &&
-						el.className.trim()
-					) {
-						// Exclude Prism syntax highlighting classes (demo feature, not framework)
-						const classes = el.className.trim();
-						if (
-							classes.startsWith("token") ||
-							classes.startsWith("language-")
-						) {
-							continue;
-						}
-						withClasses++;
-					}
-				}
-
-				return {
-					total: allElements.length,
-					withClasses,
-					percentage: (withClasses / allElements.length) * 100,
-				};
-			});
+			for (const name of FIXTURES) {
+				await loadFixture(page, name);
+
+				// Markdown renderer output is the exception: language-* on code blocks
+				// and GitHub's markdown-alert* callouts
+				const withClasses = await page.evaluate(
+					() =>
+						Array.from(document.querySelectorAll("[class]")).filter((el) =>
+							Array.from(el.classList).some(
+								(name) =>
+									!name.startsWith("language-") &&
+									!name.startsWith("markdown-alert"),
+							),
+						).length,
+				);
 
-			// Most elements should not have classes (classless framework)
-			// Demo site has some classes for theme switcher buttons etc.
-			expect(classUsage.percentage).toBeLessThan(10);
+				// Every fixture is styled by element selectors alone (classless framework)
+				expect(withClasses).toBe(0);
+			}
 		});
 
 		test("should style semantic HTML without classes", async () => {
+			await loadFixture(page, "forms");
+
 			const semanticElements = await page.evaluate(() => {
 				const elements = {
 					button: document.querySelector("button"),
@@ -172,6 +162,8 @@ describe("CSS Best Practices", () => {
 
 	describe("Simplicity & Minimalism", () => {
 		test("should not over-style elements", async () => {
+			await loadFixture(page, "forms");
+
 			const buttonStyles = await page.evaluate(() => {
 				const button = document.querySelector("button");
 				if (!button) return null;
@@ -193,6 +185,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should use consistent spacing throughout", async () => {
+			await loadFixture(page, "forms");
+
 			const spacing = await page.evaluate(() => {
 				const elements = {
 					button: document.querySelector("button"),
@@ -224,29 +218,24 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should use consistent border-radius throughout", async () => {
-			const radii = await page.evaluate(() => {
-				const elements = {
-					button: document.querySelector("button"),
-					input: document.querySelector("input"),
-					select: document.querySelector("select"),
-					table: document.querySelector("table"),
-				};
-
-				return {
-					button: elements.button
-						? parseFloat(getComputedStyle(elements.button).borderRadius)
-						: 0,
-					input: elements.input
-						? parseFloat(getComputedStyle(elements.input).borderRadius)
-						: 0,
-					select: elements.select
-						? parseFloat(getComputedStyle(elements.select).borderRadius)
-						: 0,
-					table: elements.table
-						? parseFloat(getComputedStyle(elements.table).borderRadius)
-						: 0,
-				};
-			});
+			const radius = (selector: string) =>
+				page.evaluate((selector) => {
+					const element = document.querySelector(selector);
+					return element
+						? parseFloat(getComputedStyle(element).borderRadius)
+						: 0;
+				}, selector);
+
+			await loadFixture(page, "forms");
+			const radii = {
+				button: await radius("button"),
+				input: await radius("input"),
+				select: await radius("select"),
+				table: 0,
+			};
+
+			await loadFixture(page, "tables");
+			radii.table = await radius("table");
 
 			// All should use 8px border radius (Apple standard)
 			expect(radii.button).toBe(8);
@@ -258,6 +247,8 @@ describe("CSS Best Practices", () => {
 
 	describe("SwiftUI-like Principles", () => {
 		test("should have clean fieldsets without borders", async () => {
+			await loadFixture(page, "forms");
+
 			const fieldsetStyle = await page.evaluate(() => {
 				const fieldset = document.querySelector("fieldset");
 				if (!fieldset) return null;
@@ -279,6 +270,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should use system fonts (not web fonts)", async () => {
+			await loadFixture(page, "code");
+
 			const fonts = await page.evaluate(() => {
 				const body = getComputedStyle(document.body);
 				const code = document.querySelector("code");
@@ -300,6 +293,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should prefer native form controls", async () => {
+			await loadFixture(page, "forms");
+
 			const formControls = await page.evaluate(() => {
 				const select = document.querySelector("select");
 				const input = document.querySelector("input");
@@ -321,6 +316,8 @@ describe("CSS Best Practices", () => {
 
 	describe("Performance & Efficiency", () => {
 		test("should load CSS quickly", async () => {
+			await loadFixture(page, "typography");
+
 			const cssLoadTime = await page.evaluate(() => {
 				const cssLink = document.querySelector('link[rel="stylesheet"]');
 				if (!cssLink) return null;
@@ -342,6 +339,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should not have excessive CSS rules", async () => {
+			await loadFixture(page, "typography");
+
 			const cssStats = await page.evaluate(() => {
 				const sheets = Array.from(document.styleSheets);
 				let totalRules = 0;
@@ -366,6 +365,8 @@ describe("CSS Best Practices", () => {
 
 	describe("Accessibility", () => {
 		test("should have sufficient color contrast", async () => {
+			await loadFixture(page, "typography");
+
 			const contrast = await page.evaluate(() => {
 				const body = document.body;
 				const styles = getComputedStyle(body);
@@ -400,6 +401,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should have visible focus indicators", async () => {
+			await loadFixture(page, "forms");
+
 			const input = page.locator("input[type='text']").first();
 			await input.focus();
 			await page.waitForTimeout(100);
@@ -419,6 +422,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("should not remove outlines globally", async () => {
+			await loadFixture(page, "forms");
+
 			const hasGlobalOutlineNone = await page.evaluate(() => {
 				const allElements = document.querySelectorAll("*");
 				let countWithOutlineNone = 0;
@@ -440,6 +445,8 @@ describe("CSS Best Practices", () => {
 
 	describe("Range Input Specifics", () => {
 		test("range input should use appearance: none", async () => {
+			await loadFixture(page, "forms");
+
 			const rangeAppearance = await page.evaluate(() => {
 				const range = document.querySelector("input[type='range']");
 				if (!range) return null;
@@ -456,6 +463,8 @@ describe("CSS Best Practices", () => {
 		});
 
 		test("range input should be full width", async () => {
+			await loadFixture(page, "forms");
+
 			const rangeWidth = await page.evaluate(() => {
 				const range = document.querySelector("input[type='range']");
 				if (!range) return null;
@@ -474,6 +483,8 @@ describe("CSS Best Practices", () => {
 
 	describe("Color Input Specifics", () => {
 		test("color input should be styled as circular", async () => {
+			await loadFixture(page, "forms");
+
 			const colorStyle = await page.evaluate(() => {
 				const color = document.querySelector("input[type='color']");
 				if (!color) return null;
@@ -0,0 +1,173 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import {
+	type DTCGGroup,
+	fromDTCG,
+	renderDTCG,
+	toDTCG,
+	toThemeDTCG,
+	updateTokenSource,
+} from "../scripts/dtcg";
+import { tokenValues } from "../scripts/tokens";
+
+/**
+ * DTCG Token Tests
+ * Verifies the W3C Design Tokens export and its round trip into src/lib/tokens.ts
+ */
+
+const source = readFileSync("src/lib/tokens.ts", "utf-8");
+
+// Everything that has a DTCG type - the select arrow image doesn't
+const withoutImages = (map: Record<string, string>) =>
+	Object.fromEntries(
+		Object.entries(map).filter(([name]) => name !== "select-arrow"),
+	);
+
+describe("DTCG Tokens", () => {
+	describe("export", () => {
+		test("should nest design tokens by prefix with DTCG types", () => {
+			const core = toDTCG().core as DTCGGroup;
+
+			expect(core.space).toMatchObject({
+				"4": { $type: "dimension", $value: "1rem", $description: "16px" },
+			});
+			expect(core["font-weight"]).toMatchObject({
+				semibold: { $type: "fontWeight", $value: 600 },
+			});
+			expect(core.z).toMatchObject({ modal: { $type: "number", $value: 300 } });
+			expect(core.animation).toMatchObject({
+				duration: { $type: "duration", $value: "0.15s" },
+				easing: { $type: "cubicBezier", $value: [0.25, 0.1, 0.25, 1] },
+			});
+		});
+
+		test("should emit one color set per theme", () => {
+			const document = toDTCG();
+
+			expect(document.light).toMatchObject({
+				links: { $type: "color", $value: "#007aff" },
+			});
+			expect(document.dark).toMatchObject({
+				links: { $type: "color", $value: "#0a84ff" },
+			});
+			expect(document.light).not.toHaveProperty("select-arrow");
+		});
+
+		test("should list the themes as Tokens Studio modes", () => {
+			const { $themes, $metadata } = toDTCG();
+
+			expect($themes).toContainEqual({
+				id: "dark",
+				name: "Dark",
+				selectedTokenSets: { core: "source", dark: "enabled" },
+			});
+			expect($metadata).toEqual({
+				tokenSetOrder: ["core", "light", "dark", "high-contrast", "sepia"],
+			});
+		});
+
+		test("standalone theme files should hold core and colors", () => {
+			const dark = toThemeDTCG("dark");
+
+			expect(dark.radius).toBeDefined();
+			expect(dark.background).toMatchObject({ $value: "#1c1c1e" });
+		});
+
+		test("committed out/ files should be up to date", () => {
+			for (const [path, contents] of Object.entries(renderDTCG())) {
+				expect(readFileSync(path, "utf-8")).toBe(contents);
+			}
+		});
+	});
+
+	describe("import", () => {
+		test("should round-trip every typed token", () => {
+			const values = tokenValues();
+			const imported = fromDTCG(toDTCG());
+
+			expect(imported.tokens).toEqual(values.tokens);
+			for (const [name, colors] of Object.entries(values.themes)) {
+				expect(imported.themes[name as keyof typeof values.themes]).toEqual(
+					withoutImages(colors),
+				);
+			}
+		});
+
+		test("should leave the source unchanged when nothing changed", () => {
+			const update = updateTokenSource(source, fromDTCG(toDTCG()));
+
+			expect(update.updated).toEqual([]);
+			expect(update.unknown).toEqual([]);
+			expect(update.source).toBe(source);
+		});
+
+		test("should update only the changed tokens of the right theme", () => {
+			const document = toDTCG() as Record<string, DTCGGroup>;
+			(document.light!.links as DTCGGroup).$value = "#ff2d55" as never;
+			((document.core!.space as DTCGGroup)["4"] as DTCGGroup).$value =
+				"1.125rem" as never;
+
+			const update = updateTokenSource(source, fromDTCG(document));
+
+			expect(update.updated).toEqual(["core: space-4", "light: links"]);
+			expect(update.source).toContain('links: "#ff2d55"');
+			expect(update.source).toContain('"space-4": ["1.125rem", "16px"]');
+			// dark keeps its own accent
+			expect(update.source).toContain('links: "#0a84ff"');
+		});
+
+		test("should assign a standalone file to the given theme", () => {
+			const imported = fromDTCG(
+				{
+					space: { "4": { $type: "dimension", $value: "1.125rem" } },
+					links: { $type: "color", $value: "#ff2d55" },
+				},
+				"dark",
+			);
+
+			expect(imported).toEqual({
+				tokens: { "space-4": "1.125rem" },
+				themes: { dark: { links: "#ff2d55" } },
+			});
+		});
+
+		test("should convert DTCG values back to CSS", () => {
+			const imported = fromDTCG({
+				core: {
+					animation: {
+						easing: { $type: "cubicBezier", $value: [0.1, 0.2, 0.3, 1] },
+					},
+					space: {
+						"4": { $type: "dimension", $value: { value: 18, unit: "px" } },
+						"5": { $type: "dimension", $value: "{core.space.4}" },
+					},
+				},
+				light: {
+					focus: {
+						$type: "color",
+						$value: { colorSpace: "srgb", hex: "#007aff", alpha: 0.4 },
+					},
+				},
+			});
+
+			expect(imported.tokens).toEqual({
+				"animation-easing": "cubic-bezier(0.1, 0.2, 0.3, 1)",
+				"space-4": "18px",
+				"space-5": "var(--space-4)",
+			});
+			expect(imported.themes.light).toEqual({
+				focus: "rgba(0, 122, 255, 0.4)",
+			});
+		});
+
+		test("should report tokens the source doesn't define", () => {
+			const update = updateTokenSource(source, {
+				tokens: { "space-99": "10rem" },
+				themes: {},
+			});
+
+			expect(update.unknown).toEqual(["core: space-99"]);
+			expect(update.source).toBe(source);
+		});
+	});
+});
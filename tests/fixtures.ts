@@ -0,0 +1,111 @@
+/**
+ * Component Fixtures
+ * Minimal per-element pages in tests/fixtures/ that link only the built
+ * out/juice.css, so framework tests don't depend on the demo's content
+ *
+ * They're served over HTTP by tests/setup.ts next to the demo and out/ (on
+ * file:// pages Chromium blocks reading the stylesheet's cssRules).
+ */
+
+import type { Page } from "playwright";
+import type { ThemeName } from "../src/lib/tokens";
+import { BASE_URL, VIEWPORTS } from "./test-config";
+
+export const FIXTURES_DIR = "tests/fixtures";
+
+export const FIXTURES = [
+	"forms",
+	"tables",
+	"code",
+	"code-blocks",
+	"details",
+	"dialog",
+	"progress",
+	"typography",
+	"navigation",
+	"callouts",
+	"theme-switcher",
+] as const;
+
+export type FixtureName = (typeof FIXTURES)[number];
+
+export interface FixtureOptions {
+	/** Sets data-theme on <html> - "auto" (default) follows prefers-color-scheme */
+	theme?: "auto" | ThemeName;
+	/** A VIEWPORTS preset or an explicit size - the page's size is kept if omitted */
+	viewport?: keyof typeof VIEWPORTS | { width: number; height: number };
+	/** Sets dir on <html> - the fixtures themselves are left-to-right */
+	dir?: "ltr" | "rtl";
+}
+
+export const fixtureURL = (name: FixtureName) =>
+	`${BASE_URL}/${FIXTURES_DIR}/${name}.html`;
+
+/**
+ * Open a fixture page under the given theme, viewport and direction
+ */
+export async function loadFixture(
+	page: Page,
+	name: FixtureName,
+	options: FixtureOptions = {},
+): Promise<void> {
+	const { theme = "auto", viewport, dir } = options;
+
+	if (viewport) {
+		const { width, height } =
+			typeof viewport === "string" ? VIEWPORTS[viewport] : viewport;
+		await page.setViewportSize({ width, height });
+	}
+
+	await page.goto(fixtureURL(name));
+
+	if (dir) {
+		await page.evaluate((value) => {
+			document.documentElement.dir = value;
+		}, dir);
+	}
+
+	if (theme !== "auto") {
+		await applyTheme(page, theme);
+	}
+}
+
+/**
+ * Set (or with "auto" remove) data-theme on a loaded page
+ * Waits for the color transitions the switch starts, so colors can be measured
+ */
+export async function applyTheme(
+	page: Page,
+	theme: "auto" | ThemeName,
+): Promise<void> {
+	await page.evaluate(async (value) => {
+		const root = document.documentElement;
+		if (value === "auto") {
+			root.removeAttribute("data-theme");
+		} else {
+			root.dataset.theme = value;
+		}
+
+		await Promise.allSettled(
+			document
+				.getAnimations()
+				.filter((animation) => animation instanceof CSSTransition)
+				.map((animation) => animation.finished),
+		);
+	}, theme);
+}
+
+/**
+ * A CSS color as the page computes it, e.g. "var(--error)" → "rgb(255, 59, 48)"
+ * Works for tokens and system colors alike
+ */
+export function computedColor(page: Page, color: string): Promise<string> {
+	return page.evaluate((value) => {
+		const probe = document.createElement("div");
+		probe.style.color = value;
+		document.body.append(probe);
+		const computed = getComputedStyle(probe).color;
+		probe.remove();
+		return computed;
+	}, color);
+}
@@ -1,6 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { type Browser, chromium, type Page } from "playwright";
-import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+import { computedColor, loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
 
 /**
  * Interactive Elements Tests
@@ -9,6 +10,7 @@ import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
  *
  * These tests verify FRAMEWORK behavior (what users get from juice.css),
  * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
  */
 describe("Interactive Elements - Functionality & Rendering", () => {
 	let browser: Browser;
@@ -18,7 +20,6 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		browser = await chromium.launch(BROWSER_OPTIONS);
 		const context = await browser.newContext(CONTEXT_OPTIONS);
 		page = await context.newPage();
-		await page.goto(BASE_URL);
 	});
 
 	afterAll(async () => {
@@ -27,6 +28,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Select Dropdowns", () => {
 		test("select should have custom dropdown arrow", async () => {
+			await loadFixture(page, "forms");
+
 			const selectStyle = await page.evaluate(() => {
 				const select = document.querySelector("select");
 				if (!select) return null;
@@ -54,6 +57,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("select should render with proper width", async () => {
+			await loadFixture(page, "forms");
+
 			const selectWidth = await page.evaluate(() => {
 				const select = document.querySelector("select");
 				if (!select) return null;
@@ -71,6 +76,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("select should open dropdown when clicked", async () => {
+			await loadFixture(page, "forms");
+
 			const select = page.locator("select").first();
 
 			// Click to open
@@ -85,6 +92,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("select should show all options", async () => {
+			await loadFixture(page, "forms");
+
 			const optionCount = await page.evaluate(() => {
 				const select = document.querySelector("select");
 				if (!select) return 0;
@@ -95,6 +104,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("select should be able to change value", async () => {
+			await loadFixture(page, "forms");
+
 			const select = page.locator("select").first();
 
 			const initialValue = await select.inputValue();
@@ -117,6 +128,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("select should maintain styling in fieldset", async () => {
+			await loadFixture(page, "forms");
+
 			const selectInFieldset = await page.evaluate(() => {
 				const fieldset = document.querySelector("fieldset");
 				const select = fieldset?.querySelector("select");
@@ -139,6 +152,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Text Inputs", () => {
 		test("text input should accept and display text", async () => {
+			await loadFixture(page, "forms");
+
 			const input = page.locator('input[type="text"]').first();
 
 			// Clear and type
@@ -150,6 +165,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("text input should be full width in fieldset", async () => {
+			await loadFixture(page, "forms");
+
 			const inputWidth = await page.evaluate(() => {
 				const fieldset = document.querySelector("fieldset");
 				const input = fieldset?.querySelector('input[type="text"]');
@@ -168,6 +185,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("text input should show focus state when clicked", async () => {
+			await loadFixture(page, "forms");
+
 			const input = page.locator('input[type="text"]').first();
 
 			await input.click();
@@ -188,6 +207,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("email input should have same width as text input", async () => {
+			await loadFixture(page, "forms");
+
 			const widths = await page.evaluate(() => {
 				const textInput = document.querySelector('input[type="text"]');
 				const emailInput = document.querySelector('input[type="email"]');
@@ -207,8 +228,92 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 	});
 
+	describe("Validation", () => {
+		const boxShadow = (selector: string) =>
+			page.$eval(selector, (el) => getComputedStyle(el).boxShadow);
+
+		test("required fields should not look invalid before they are edited", async () => {
+			await loadFixture(page, "forms");
+
+			const error = await computedColor(page, "var(--error)");
+			const isInvalid = await page.$eval("#email", (el) =>
+				el.matches(":invalid"),
+			);
+
+			expect(isInvalid).toBe(true);
+			expect(await boxShadow("#email")).not.toContain(error);
+		});
+
+		test("edited invalid field should show an error border and focus ring", async () => {
+			await loadFixture(page, "forms");
+
+			const error = await computedColor(page, "var(--error)");
+			await page.fill("#email", "not-an-email");
+			await page.press("#email", "Tab");
+
+			const blurred = await boxShadow("#email");
+			expect(blurred).toContain(error);
+
+			await page.focus("#email");
+			const focused = await boxShadow("#email");
+
+			// Error edge plus a translucent error ring instead of --focus
+			expect(focused).toContain(error);
+			expect(focused).toContain("inset, ");
+			expect(focused).not.toBe(blurred);
+		});
+
+		test("edited valid required field should show a success cue", async () => {
+			await loadFixture(page, "forms");
+
+			const success = await computedColor(page, "var(--success)");
+			await page.fill("#email", "name@example.com");
+			await page.press("#email", "Tab");
+
+			expect(await boxShadow("#email")).toContain(success);
+		});
+
+		test("fields without constraints should not turn green", async () => {
+			await loadFixture(page, "forms");
+
+			const success = await computedColor(page, "var(--success)");
+			await page.fill("#name", "Jane");
+			await page.press("#name", "Tab");
+
+			expect(await boxShadow("#name")).not.toContain(success);
+		});
+
+		test('aria-invalid="true" should look invalid without editing', async () => {
+			await loadFixture(page, "forms");
+
+			const error = await computedColor(page, "var(--error)");
+
+			expect(await boxShadow("#username")).toContain(error);
+		});
+
+		test("labels of required fields should show a required marker", async () => {
+			await loadFixture(page, "forms");
+
+			const error = await computedColor(page, "var(--error)");
+			const marker = (selector: string) =>
+				page.$eval(selector, (el) => {
+					const styles = getComputedStyle(el, "::after");
+					return { content: styles.content, color: styles.color };
+				});
+
+			const required = await marker('label[for="email"]');
+			expect(required.content).toContain("*");
+			expect(required.color).toBe(error);
+
+			const optional = await marker('label[for="name"]');
+			expect(optional.content).toBe("none");
+		});
+	});
+
 	describe("Textarea", () => {
 		test("textarea should accept multi-line text", async () => {
+			await loadFixture(page, "forms");
+
 			const textarea = page.locator("textarea").first();
 
 			const testText = "Line 1\nLine 2\nLine 3";
@@ -220,6 +325,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("textarea should be vertically resizable", async () => {
+			await loadFixture(page, "forms");
+
 			const resize = await page.evaluate(() => {
 				const textarea = document.querySelector("textarea");
 				if (!textarea) return null;
@@ -230,6 +337,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("textarea should have minimum height", async () => {
+			await loadFixture(page, "forms");
+
 			const minHeight = await page.evaluate(() => {
 				const textarea = document.querySelector("textarea");
 				if (!textarea) return 0;
@@ -240,6 +349,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("textarea should be full width", async () => {
+			await loadFixture(page, "forms");
+
 			const width = await page.evaluate(() => {
 				const textarea = document.querySelector("textarea");
 				if (!textarea) return null;
@@ -255,6 +366,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Range Input (Slider)", () => {
 		test("range input should be interactive", async () => {
+			await loadFixture(page, "forms");
+
 			const range = page.locator('input[type="range"]').first();
 
 			const _initialValue = await range.inputValue();
@@ -268,6 +381,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("range input should be full width", async () => {
+			await loadFixture(page, "forms");
+
 			const width = await page.evaluate(() => {
 				const range = document.querySelector('input[type="range"]');
 				if (!range) return null;
@@ -284,6 +399,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("range input should have custom styling (appearance: none)", async () => {
+			await loadFixture(page, "forms");
+
 			const rangeStyle = await page.evaluate(() => {
 				const range = document.querySelector('input[type="range"]');
 				if (!range) return null;
@@ -302,6 +419,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("range track should be styled", async () => {
+			await loadFixture(page, "forms");
+
 			// We can't directly test pseudo-elements, but we can verify the range renders properly
 			const rangeRendered = await page.evaluate(() => {
 				const range = document.querySelector('input[type="range"]');
@@ -318,6 +437,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Color Input (Color Picker)", () => {
 		test("color input should open color picker", async () => {
+			await loadFixture(page, "forms");
+
 			const colorInput = page.locator('input[type="color"]').first();
 
 			// Color inputs should be clickable
@@ -332,6 +453,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("color input should accept hex color values", async () => {
+			await loadFixture(page, "forms");
+
 			const colorInput = page.locator('input[type="color"]').first();
 
 			// Set a color value
@@ -343,6 +466,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("color input should be styled as circular", async () => {
+			await loadFixture(page, "forms");
+
 			const colorStyle = await page.evaluate(() => {
 				const color = document.querySelector('input[type="color"]');
 				if (!color) return null;
@@ -362,6 +487,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("color input should have pointer cursor", async () => {
+			await loadFixture(page, "forms");
+
 			const cursor = await page.evaluate(() => {
 				const color = document.querySelector('input[type="color"]');
 				if (!color) return null;
@@ -374,6 +501,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Checkbox & Radio Inputs", () => {
 		test("checkbox should be clickable and toggle state", async () => {
+			await loadFixture(page, "forms");
+
 			const checkbox = page.locator('input[type="checkbox"]').first();
 
 			const initialChecked = await checkbox.isChecked();
@@ -386,6 +515,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("radio buttons should be clickable", async () => {
+			await loadFixture(page, "forms");
+
 			const radio = page.locator('input[type="radio"]').first();
 
 			await radio.click();
@@ -396,6 +527,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("checkbox should have inline layout with label", async () => {
+			await loadFixture(page, "forms");
+
 			const labelLayout = await page.evaluate(() => {
 				const label = document.querySelector(
 					'label:has(input[type="checkbox"])',
@@ -414,8 +547,10 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("radio buttons should be mutually exclusive in same group", async () => {
+			await loadFixture(page, "forms");
+
 			const radios = await page
-				.locator('input[type="radio"][name="theme"]')
+				.locator('input[type="radio"][name="plan"]')
 				.all();
 
 			if (radios.length > 1) {
@@ -441,6 +576,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Buttons", () => {
 		test("submit button should be clickable", async () => {
+			await loadFixture(page, "forms");
+
 			const button = page.locator('button[type="submit"]').first();
 
 			await button.click();
@@ -454,6 +591,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("button should show active state when clicked", async () => {
+			await loadFixture(page, "forms");
+
 			const button = page.locator('button[type="submit"]').first();
 
 			const _normalTransform = await button.evaluate(
@@ -477,6 +616,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("disabled button should not be clickable", async () => {
+			await loadFixture(page, "forms");
+
 			const disabledButton = page.locator("button:disabled").first();
 
 			if ((await disabledButton.count()) > 0) {
@@ -497,6 +638,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("reset button should work", async () => {
+			await loadFixture(page, "forms");
+
 			const resetButton = page.locator('button[type="reset"]').first();
 
 			if ((await resetButton.count()) > 0) {
@@ -517,6 +660,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Progress & Meter", () => {
 		test("progress bar should render with proper width", async () => {
+			await loadFixture(page, "progress");
+
 			const progressWidth = await page.evaluate(() => {
 				const progress = document.querySelector("progress");
 				if (!progress) return null;
@@ -532,6 +677,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("progress bar should have value", async () => {
+			await loadFixture(page, "progress");
+
 			const progressValue = await page.evaluate(() => {
 				const progress = document.querySelector("progress");
 				if (!progress) return null;
@@ -548,6 +695,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("meter should render correctly", async () => {
+			await loadFixture(page, "progress");
+
 			const meterExists = await page.evaluate(() => {
 				const meter = document.querySelector("meter");
 				return meter !== null;
@@ -571,6 +720,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 
 	describe("Details/Summary (Accordion)", () => {
 		test("details should expand and collapse", async () => {
+			await loadFixture(page, "details");
+
 			const details = page.locator("details").first();
 
 			if ((await details.count()) > 0) {
@@ -594,6 +745,8 @@ describe("Interactive Elements - Functionality & Rendering", () => {
 		});
 
 		test("summary should have pointer cursor", async () => {
+			await loadFixture(page, "details");
+
 			const summaryCursor = await page.evaluate(() => {
 				const summary = document.querySelector("summary");
 				if (!summary) return null;
@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { minifyCSS, minifyWithStats, tokenize } from "../scripts/minify-css";
+
+/**
+ * CSS Minifier Tests
+ * Every corpus entry is parsed by Bun's CSS parser before and after
+ * minification - both must serialize to the same rule set.
+ */
+
+// Tricky inputs the old regex minifier mangled
+const CORPUS: Record<string, string> = {
+	"descendant pseudo-class":
+		"a :hover { color: red; }\nnav  > a + b ~ i { x: y }",
+	"strings with special characters": `q::before { content: "a : b , c > d"; }
+p::after { content: 'it\\'s  { }  ; '; }`,
+	"data URI": `select {
+	background-image: url("data:image/svg+xml;charset=utf-8,%3Csvg fill='%231d1d1f'%3E %3Cpath d='M115.3,1.6 C113.7,0 111.1,0 109.5,1.6Z'/%3E %3C/svg%3E");
+}`,
+	"unquoted url":
+		"div { background: url( https://example.com/a.png?x=1,2 ) no-repeat; }",
+	"calc spacing": `details + details {
+	margin-top: calc(-1 * var(--space-3) - var(--border-base));
+	width: calc(100% + 2 * var(--space-1));
+}`,
+	comments: "/* header */\na/* inline */{ /* x */ color: /* y */ red; }",
+	"media queries": `@media (max-width: 600px) and (prefers-color-scheme: dark) {
+	:root { --x: 1px; }
+	table { display: block; }
+}`,
+	"attribute selectors": `input:not([type="checkbox"]):not(
+		[type = "radio"]
+	), a[href ^= "http"] { color: blue !important; }`,
+	"nth-child": "li:nth-child( 2n + 1 ) { margin: 0 auto; }",
+	"empty declarations": "a { color: red;; ; }",
+	"nested rules": `nav {
+	color: red;
+	& :hover { color: blue; }
+	&:focus , & > a { color: green; }
+	@media (min-width: 600px) { margin: 0 auto; }
+}`,
+};
+
+const SOURCES = [
+	"src/lib/variables-light.css",
+	"src/lib/variables-dark.css",
+	"out/juice.css",
+];
+
+describe("CSS Minifier", () => {
+	let dir: string;
+
+	// Parse with Bun's CSS parser and serialize without minification
+	const parse = async (css: string, name: string) => {
+		const path = join(dir, `${name}.css`);
+		writeFileSync(path, css);
+		const result = await Bun.build({ entrypoints: [path], minify: false });
+		expect(result.success).toBe(true);
+		const text = await result.outputs[0]!.text();
+		// Drop the leading `/* path */` banner Bun adds
+		return text.replace(/^\/\*.*\*\/\n/, "");
+	};
+
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "juice-minify-"));
+	});
+
+	afterAll(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	describe("rule set equivalence", () => {
+		for (const [name, css] of Object.entries(CORPUS)) {
+			test(name, async () => {
+				const minified = minifyCSS(css);
+
+				expect(await parse(minified, "minified")).toBe(
+					await parse(css, "source"),
+				);
+			});
+		}
+
+		for (const source of SOURCES) {
+			test(source, async () => {
+				const css = readFileSync(source, "utf-8");
+
+				expect(await parse(minifyCSS(css), "minified")).toBe(
+					await parse(css, "source"),
+				);
+			});
+		}
+	});
+
+	describe("output", () => {
+		test("should preserve string contents verbatim", () => {
+			const css = 'p::after { content: "a : b , c"; }';
+			expect(minifyCSS(css)).toBe('p::after{content:"a : b , c"}');
+		});
+
+		test("should keep descendant combinators before pseudo-classes", () => {
+			expect(minifyCSS("a :hover { color: red; }")).toBe("a :hover{color:red}");
+		});
+
+		test("should keep descendant combinators in nested rules", () => {
+			expect(minifyCSS("a { color: red; & :hover { color: blue; } }")).toBe(
+				"a{color:red;& :hover{color:blue}}",
+			);
+			expect(minifyCSS("a { &:hover , & > b { color: blue; } }")).toBe(
+				"a{&:hover,&>b{color:blue}}",
+			);
+		});
+
+		test("should minify declarations in nested at-rules", () => {
+			expect(minifyCSS("a { @media (min-width: 1px) { color : red; } }")).toBe(
+				"a{@media (min-width:1px){color:red}}",
+			);
+		});
+
+		test("should keep operator spacing inside calc()", () => {
+			expect(minifyCSS("a { width: calc(100% - 2px + 1em); }")).toBe(
+				"a{width:calc(100% - 2px + 1em)}",
+			);
+		});
+
+		test("should collapse selector combinators", () => {
+			expect(minifyCSS("ul > li + li ~ li { margin: 0; }")).toBe(
+				"ul>li+li~li{margin:0}",
+			);
+		});
+
+		test("should keep the space before a media feature", () => {
+			expect(
+				minifyCSS("@media screen and (min-width: 1px) { a { b: c; } }"),
+			).toBe("@media screen and (min-width:1px){a{b:c}}");
+		});
+
+		test("should remove comments", () => {
+			expect(minifyCSS("/* a */ b { /* c */ d: e; }")).toBe("b{d:e}");
+		});
+	});
+
+	describe("tokenizer", () => {
+		test("should round-trip the input exactly", () => {
+			for (const css of Object.values(CORPUS)) {
+				const joined = tokenize(css)
+					.map((token) => token.value)
+					.join("");
+				expect(joined).toBe(css);
+			}
+		});
+
+		test("should treat unquoted url() as a single token", () => {
+			const tokens = tokenize("url( a b.png )");
+			expect(tokens).toEqual([{ type: "url", value: "url( a b.png )" }]);
+		});
+	});
+
+	describe("stats", () => {
+		test("should report byte savings", () => {
+			const { css, stats } = minifyWithStats("a {\n\tcolor: red;\n}\n");
+
+			expect(css).toBe("a{color:red}");
+			expect(stats.originalBytes).toBe(19);
+			expect(stats.minifiedBytes).toBe(12);
+			expect(stats.savedBytes).toBe(7);
+			expect(stats.savings).toBeCloseTo(7 / 19);
+		});
+
+		test("should count multi-byte characters in bytes", () => {
+			const { stats } = minifyWithStats('a::after { content: "−"; }');
+			expect(stats.minifiedBytes).toBe(
+				new TextEncoder().encode('a::after{content:"−"}').length,
+			);
+		});
+	});
+});
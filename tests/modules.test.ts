@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { basename } from "node:path";
+import { buildJuice } from "../scripts/build";
+import {
+	assembleBase,
+	MODULES,
+	moduleFiles,
+	resolveModules,
+} from "../scripts/modules";
+
+/**
+ * Module Tests
+ * Verifies the base.css module split and custom bundles
+ */
+
+const BASE = "src/lib/base.css";
+
+describe("Modules", () => {
+	test("every module file should belong to exactly one module", async () => {
+		const imported = (await moduleFiles(BASE)).map((path) =>
+			basename(path, ".css"),
+		);
+		const declared = Object.values(MODULES).flatMap(({ files }) => files);
+
+		expect(declared.toSorted()).toEqual(imported.toSorted());
+		expect(new Set(declared).size).toBe(declared.length);
+		for (const path of await moduleFiles(BASE)) {
+			expect(existsSync(path)).toBe(true);
+		}
+	});
+
+	test("should always include the document module", () => {
+		expect(resolveModules([])).toEqual(["document"]);
+		expect(resolveModules(["code"])).toEqual(["document", "code"]);
+	});
+
+	test("should pull in dependencies", () => {
+		expect(resolveModules(["range"])).toEqual([
+			"document",
+			"focus",
+			"forms",
+			"range",
+		]);
+	});
+
+	test("should reject unknown modules", () => {
+		expect(() => resolveModules(["typography", "carousel"])).toThrow(
+			'Unknown module "carousel"',
+		);
+	});
+
+	test("all modules should assemble to the full base", async () => {
+		expect(await assembleBase(BASE, Object.keys(MODULES))).toBe(
+			await assembleBase(BASE),
+		);
+	});
+
+	describe("custom bundles", () => {
+		test("should only contain the requested modules", async () => {
+			const css = await assembleBase(BASE, ["typography", "code"]);
+
+			expect(css).toStartWith("/**\n * juice.css - Simple, Apple-inspired CSS");
+			expect(css).toContain("box-sizing: border-box;");
+			expect(css).toContain("blockquote {");
+			expect(css).toContain("pre {");
+			expect(css).not.toContain("table {");
+			expect(css).not.toContain("input:focus");
+			expect(css).not.toContain("@media print");
+		});
+
+		test("should include the focus ring with forms", async () => {
+			const css = await assembleBase(BASE, ["forms"]);
+
+			expect(css).toContain("box-shadow: 0 0 0 3px var(--focus);");
+			expect(css).not.toContain('input[type="range"]');
+		});
+
+		test("should build themed bundles from a module list", async () => {
+			const { outputs } = await buildJuice({
+				outDir: "custom",
+				include: ["typography", "code", "tables"],
+				themes: ["auto"],
+				write: false,
+			});
+			const [full] = (await buildJuice({ themes: ["auto"], write: false }))
+				.outputs;
+
+			expect(outputs.map(({ path }) => path)).toEqual([
+				"custom/juice.css",
+				"custom/juice.min.css",
+			]);
+			expect(outputs[0]!.css).toContain("--space-4: 1rem;");
+			expect(outputs[0]!.css).toContain("table {");
+			expect(outputs[0]!.css.length).toBeLessThan(full!.css.length);
+		});
+	});
+});
@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium, type Page } from "playwright";
+import { loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * Print Stylesheet Tests
+ * Verifies the @media print block uses the --print-* tokens
+ * regardless of the active screen theme
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
+ */
+describe("Print Stylesheet", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	for (const colorScheme of ["light", "dark"] as const) {
+		describe(`from ${colorScheme} mode`, () => {
+			beforeAll(async () => {
+				await page.emulateMedia({ media: "print", colorScheme });
+			});
+
+			afterAll(async () => {
+				await page.emulateMedia({ media: "screen", colorScheme: null });
+			});
+
+			test("should force print background and text colors", async () => {
+				await loadFixture(page, "typography");
+
+				const colors = await page.evaluate(() => {
+					const html = getComputedStyle(document.documentElement);
+					const body = getComputedStyle(document.body);
+					const h1 = document.querySelector("h1")!;
+					return {
+						htmlBg: html.backgroundColor,
+						bodyBg: body.backgroundColor,
+						bodyText: body.color,
+						heading: getComputedStyle(h1).color,
+					};
+				});
+
+				expect(colors.htmlBg).toBe("rgb(255, 255, 255)");
+				expect(colors.bodyBg).toBe("rgb(255, 255, 255)");
+				expect(colors.bodyText).toBe("rgb(0, 0, 0)");
+				expect(colors.heading).toBe("rgb(0, 0, 0)");
+			});
+
+			test("should use print colors for code blocks", async () => {
+				await loadFixture(page, "code");
+
+				const pre = await page.evaluate(() => {
+					const el = document.querySelector("pre")!;
+					const styles = getComputedStyle(el);
+					return {
+						background: styles.backgroundColor,
+						border: styles.borderTopColor,
+					};
+				});
+
+				expect(pre.background).toBe("rgb(242, 242, 242)");
+				expect(pre.border).toBe("rgb(0, 0, 0)");
+			});
+		});
+	}
+
+	describe("layout", () => {
+		beforeAll(async () => {
+			await page.emulateMedia({ media: "print" });
+		});
+
+		afterAll(async () => {
+			await page.emulateMedia({ media: "screen" });
+		});
+
+		test("should let the body use the full page width", async () => {
+			await loadFixture(page, "typography");
+
+			const maxWidth = await page.evaluate(
+				() => getComputedStyle(document.body).maxWidth,
+			);
+
+			expect(maxWidth).toBe("none");
+		});
+
+		test("should expand external link URLs after anchors", async () => {
+			await loadFixture(page, "typography");
+
+			const link = await page.evaluate(() => {
+				const a = document.querySelector('a[href^="http"]')!;
+				const after = getComputedStyle(a, "::after");
+				return {
+					href: a.getAttribute("href"),
+					content: after.content,
+					color: getComputedStyle(a).color,
+					decoration: getComputedStyle(a).textDecorationLine,
+				};
+			});
+
+			expect(link.content).toContain(link.href!);
+			expect(link.color).toBe("rgb(0, 0, 255)");
+			expect(link.decoration).toBe("underline");
+		});
+
+		test("should not expand in-page anchors", async () => {
+			await loadFixture(page, "typography");
+
+			const content = await page.evaluate(() => {
+				const a = document.querySelector('a[href^="#"]')!;
+				return getComputedStyle(a, "::after").content;
+			});
+
+			expect(content).toBe("none");
+		});
+
+		test("should avoid page breaks inside blocks", async () => {
+			const blocks = {
+				pre: "code",
+				table: "tables",
+				figure: "typography",
+				details: "details",
+			} as const;
+
+			for (const [selector, fixture] of Object.entries(blocks)) {
+				await loadFixture(page, fixture);
+
+				const value = await page.evaluate((selector) => {
+					const el = document.querySelector(selector)!;
+					return getComputedStyle(el).breakInside;
+				}, selector);
+
+				expect(value).toBe("avoid");
+			}
+		});
+
+		test("should print the contents of closed details", async () => {
+			await loadFixture(page, "details");
+
+			const visible = await page.evaluate(() => {
+				const details = document.querySelector("details:not([open])")!;
+				const content = details.querySelector(":scope > :not(summary)")!;
+				return (content as HTMLElement).getBoundingClientRect().height > 0;
+			});
+
+			expect(visible).toBe(true);
+		});
+	});
+});
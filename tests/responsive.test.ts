@@ -1,11 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
-import {
-	type Browser,
-	type BrowserContext,
-	chromium,
-	type Page,
-} from "playwright";
-import { BASE_URL, BROWSER_OPTIONS } from "./test-config";
+import { type Browser, chromium, type Page } from "playwright";
+import { FIXTURES, loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, DEVICE_VIEWPORTS } from "./test-config";
 
 /**
  * Responsive Design Tests
@@ -14,56 +10,37 @@ import { BASE_URL, BROWSER_OPTIONS } from "./test-config";
  *
  * These tests verify FRAMEWORK behavior (what users get from juice.css),
  * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
  */
+// Built by tests/setup.ts - labels the cells of stacked tables
+const STACK_TABLES_SCRIPT = "out/juice-stack-tables.js";
+
 describe("Responsive Design - All Viewports", () => {
 	let browser: Browser;
-	let context: BrowserContext;
 	let page: Page;
 
 	beforeAll(async () => {
 		browser = await chromium.launch(BROWSER_OPTIONS);
+		page = await browser.newPage();
 	});
 
 	afterAll(async () => {
 		await browser.close();
 	});
 
-	const viewports = [
-		{ name: "iPhone SE", width: 375, height: 667, type: "mobile" },
-		{ name: "iPhone 12 Pro", width: 390, height: 844, type: "mobile" },
-		{ name: "iPhone 14 Pro Max", width: 430, height: 932, type: "mobile" },
-		{ name: "iPad Mini", width: 768, height: 1024, type: "tablet" },
-		{ name: "iPad Pro 11", width: 834, height: 1194, type: "tablet" },
-		{ name: "iPad Pro 12.9", width: 1024, height: 1366, type: "tablet" },
-		{ name: "Laptop", width: 1280, height: 800, type: "desktop" },
-		{ name: "Desktop", width: 1920, height: 1080, type: "desktop" },
-		{ name: "4K Desktop", width: 2560, height: 1440, type: "desktop" },
-	];
-
-	for (const viewport of viewports) {
+	for (const viewport of DEVICE_VIEWPORTS) {
 		describe(`${viewport.name} (${viewport.width}x${viewport.height})`, () => {
-			beforeAll(async () => {
-				context = await browser.newContext({
-					viewport: {
-						width: viewport.width,
-						height: viewport.height,
-					},
-				});
-				page = await context.newPage();
-				await page.goto(BASE_URL);
-			});
-
-			afterAll(async () => {
-				await context.close();
-			});
-
 			test("page should load completely", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const title = await page.title();
 				expect(title).toBeTruthy();
 				expect(title.length).toBeGreaterThan(0);
 			});
 
 			test("body should have proper max-width and centering", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const bodyLayout = await page.evaluate(() => {
 					const body = getComputedStyle(document.body);
 					return {
@@ -85,6 +62,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("text inputs should be full width", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const inputWidths = await page.evaluate(() => {
 					const inputs = document.querySelectorAll(
 						'input[type="text"], input[type="email"], input[type="url"]',
@@ -106,6 +85,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("select dropdowns should be full width", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const selectWidths = await page.evaluate(() => {
 					const selects = document.querySelectorAll("select");
 					return Array.from(selects).map((select) => {
@@ -122,6 +103,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("textareas should be full width", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const textareaWidth = await page.evaluate(() => {
 					const textarea = document.querySelector("textarea");
 					if (!textarea) return null;
@@ -137,6 +120,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("range inputs should be full width", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const rangeWidth = await page.evaluate(() => {
 					const range = document.querySelector('input[type="range"]');
 					if (!range) return null;
@@ -152,6 +137,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("buttons should be properly sized", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const buttonSizes = await page.evaluate(() => {
 					const buttons = document.querySelectorAll("button");
 					return Array.from(buttons)
@@ -177,6 +164,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("headings should be readable", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const headingSizes = await page.evaluate(() => {
 					const h1 = document.querySelector("h1");
 					const h2 = document.querySelector("h2");
@@ -194,6 +183,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("tables should be visible (not overflow)", async () => {
+				await loadFixture(page, "tables", { viewport });
+
 				const tableWidth = await page.evaluate(() => {
 					const table = document.querySelector("table");
 					if (!table) return null;
@@ -214,7 +205,88 @@ describe("Responsive Design - All Viewports", () => {
 				}
 			});
 
+			test("default tables should scroll horizontally on mobile", async () => {
+				await loadFixture(page, "tables", { viewport });
+
+				const layout = await page.evaluate(() => {
+					const table = document.querySelector("table:not([data-stack])")!;
+					const styles = getComputedStyle(table);
+					return { display: styles.display, overflowX: styles.overflowX };
+				});
+
+				if (viewport.type === "mobile") {
+					expect(layout).toEqual({ display: "block", overflowX: "auto" });
+				} else {
+					expect(layout.display).toBe("table");
+				}
+			});
+
+			test("stacked tables should render rows as labelled cards on mobile", async () => {
+				await loadFixture(page, "tables", { viewport });
+				await page.addScriptTag({ path: STACK_TABLES_SCRIPT });
+
+				const layout = await page.evaluate(() => {
+					const table = document.querySelector("table[data-stack]")!;
+					const cell = table.querySelector("tbody td")!;
+					return {
+						label: cell.getAttribute("data-label"),
+						before: getComputedStyle(cell, "::before").content,
+						rowDisplay: getComputedStyle(cell.parentElement!).display,
+						headerHeight: table.querySelector("thead")!.offsetHeight,
+						overflows: table.scrollWidth > table.clientWidth + 1,
+					};
+				});
+
+				// The script labels every cell, the CSS only shows labels when stacked
+				expect(layout.label).toBe("Version");
+
+				if (viewport.type === "mobile") {
+					expect(layout.rowDisplay).toBe("block");
+					expect(layout.before).toBe('"Version"');
+					// Header row is visually hidden, not removed
+					expect(layout.headerHeight).toBeLessThanOrEqual(1);
+					expect(layout.overflows).toBe(false);
+				} else {
+					expect(layout.rowDisplay).toBe("table-row");
+					expect(layout.before).toBe("none");
+				}
+			});
+
+			test("navigation menu should collapse into a disclosure on mobile", async () => {
+				await loadFixture(page, "navigation", { viewport });
+
+				const menu = () =>
+					page.evaluate(() => {
+						const details = document.querySelector("header nav details")!;
+						const items = Array.from(details.querySelectorAll("li"));
+						return {
+							summary: getComputedStyle(details.querySelector("summary")!)
+								.display,
+							linksVisible: items.every((item) => item.checkVisibility()),
+							tops: items.map((item) => item.getBoundingClientRect().top),
+						};
+					});
+
+				const closed = await menu();
+
+				if (viewport.type === "mobile") {
+					expect(closed.summary).not.toBe("none");
+					expect(closed.linksVisible).toBe(false);
+
+					// Opens without JavaScript, as a vertical list
+					await page.click("header nav summary");
+					const open = await menu();
+					expect(open.linksVisible).toBe(true);
+					expect(new Set(open.tops).size).toBe(open.tops.length);
+				} else {
+					expect(closed.summary).toBe("none");
+					expect(closed.linksVisible).toBe(true);
+				}
+			});
+
 			test("images should be responsive", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const imageWidths = await page.evaluate(() => {
 					const images = document.querySelectorAll("img");
 					const viewportWidth = window.innerWidth;
@@ -241,21 +313,27 @@ describe("Responsive Design - All Viewports", () => {
 					return;
 				}
 
-				const scrollInfo = await page.evaluate(() => {
-					const scrollWidth = document.documentElement.scrollWidth;
-					const clientWidth = document.documentElement.clientWidth;
-					// Allow small tolerance for rounding/scrollbar
-					return {
-						hasScroll: scrollWidth > clientWidth + 2,
-						scrollWidth,
-						clientWidth,
-					};
-				});
+				for (const name of FIXTURES) {
+					await loadFixture(page, name, { viewport });
+
+					const scrollInfo = await page.evaluate(() => {
+						const scrollWidth = document.documentElement.scrollWidth;
+						const clientWidth = document.documentElement.clientWidth;
+						// Allow small tolerance for rounding/scrollbar
+						return {
+							hasScroll: scrollWidth > clientWidth + 2,
+							scrollWidth,
+							clientWidth,
+						};
+					});
 
-				expect(scrollInfo.hasScroll).toBe(false);
+					expect(scrollInfo.hasScroll).toBe(false);
+				}
 			});
 
 			test("touch targets should be large enough on mobile", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				if (viewport.type === "mobile") {
 					const touchTargets = await page.evaluate(() => {
 						const buttons = document.querySelectorAll(
@@ -282,6 +360,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("fieldsets should maintain proper spacing", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const fieldsetSpacing = await page.evaluate(() => {
 					const fieldsets = document.querySelectorAll("fieldset");
 					return Array.from(fieldsets).map((fieldset) => {
@@ -300,6 +380,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("content should be readable (proper line-length)", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const contentWidth = await page.evaluate(() => {
 					const body = document.body;
 					const bodyWidth = body.offsetWidth;
@@ -320,6 +402,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("forms should be usable", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const formUsability = await page.evaluate(() => {
 					const form = document.querySelector("form");
 					if (!form) return null;
@@ -343,6 +427,8 @@ describe("Responsive Design - All Viewports", () => {
 			});
 
 			test("text should be readable size", async () => {
+				await loadFixture(page, "typography", { viewport });
+
 				const textSizes = await page.evaluate(() => {
 					const body = getComputedStyle(document.body);
 					const p = document.querySelector("p");
@@ -360,6 +446,8 @@ describe("Responsive Design - All Viewports", () => {
 
 			// Take screenshot for visual verification
 			test("visual snapshot", async () => {
+				await loadFixture(page, "forms", { viewport });
+
 				const screenshotPath = `/tmp/juice-${viewport.name.toLowerCase().replace(/\s+/g, "-")}-${viewport.width}x${viewport.height}.png`;
 				await page.screenshot({
 					path: screenshotPath,
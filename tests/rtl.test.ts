@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium, type Page } from "playwright";
+import { loadFixture } from "./fixtures";
+import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * Right-to-Left Tests
+ * Verifies base.css uses logical properties, so dir="rtl" pages mirror
+ * correctly: indents, borders and corners move to the right-hand side
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/ with dir="rtl",
+ * plus the RTL demo page the build emits (dist/rtl.html).
+ */
+describe("Right-to-Left", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	test("lists should be indented from the right", async () => {
+		await loadFixture(page, "typography", { dir: "rtl" });
+
+		const padding = await page.$eval("ul", (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				left: Number.parseFloat(styles.paddingLeft),
+				right: Number.parseFloat(styles.paddingRight),
+			};
+		});
+
+		expect(padding.left).toBe(0);
+		expect(padding.right).toBeGreaterThan(0);
+	});
+
+	test("blockquote border should be on the right", async () => {
+		await loadFixture(page, "typography", { dir: "rtl" });
+
+		const border = await page.$eval("blockquote", (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				left: Number.parseFloat(styles.borderLeftWidth),
+				right: Number.parseFloat(styles.borderRightWidth),
+			};
+		});
+
+		expect(border.left).toBe(0);
+		expect(border.right).toBeGreaterThan(0);
+	});
+
+	test("callout border should be on the right", async () => {
+		await loadFixture(page, "callouts", { dir: "rtl" });
+
+		const border = await page.$eval('aside[role="note"]', (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				left: Number.parseFloat(styles.borderLeftWidth),
+				right: Number.parseFloat(styles.borderRightWidth),
+			};
+		});
+
+		expect(border.left).toBe(0);
+		expect(border.right).toBeGreaterThan(0);
+	});
+
+	test("definition descriptions should be indented from the right", async () => {
+		await loadFixture(page, "typography", { dir: "rtl" });
+
+		const margin = await page.$eval("dd", (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				left: Number.parseFloat(styles.marginLeft),
+				right: Number.parseFloat(styles.marginRight),
+			};
+		});
+
+		expect(margin.left).toBe(0);
+		expect(margin.right).toBeGreaterThan(0);
+	});
+
+	test("table headers should align right with the first corner rounded", async () => {
+		await loadFixture(page, "tables", { dir: "rtl" });
+
+		const header = await page.evaluate(() => {
+			const cells = Array.from(
+				document.querySelectorAll("table:not([data-stack]) thead th"),
+			);
+			const first = cells[0]!;
+			const last = cells.at(-1)!;
+			const styles = getComputedStyle(first);
+			return {
+				textAlign: styles.textAlign,
+				topRight: styles.borderTopRightRadius,
+				topLeft: styles.borderTopLeftRadius,
+				firstIsRightmost:
+					first.getBoundingClientRect().left >
+					last.getBoundingClientRect().left,
+			};
+		});
+
+		expect(header.textAlign).toBe("start");
+		expect(header.firstIsRightmost).toBe(true);
+		expect(header.topRight).not.toBe("0px");
+		expect(header.topLeft).toBe("0px");
+	});
+
+	test("select arrow should sit on the left", async () => {
+		await loadFixture(page, "forms", { dir: "rtl" });
+
+		const select = await page.$eval("select", (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				position: styles.backgroundPositionX,
+				left: Number.parseFloat(styles.paddingLeft),
+				right: Number.parseFloat(styles.paddingRight),
+			};
+		});
+
+		// Chromium serializes "left 12px" as "12px"
+		expect(select.position).toMatch(/^(left )?\d/);
+		expect(select.left).toBeGreaterThan(select.right);
+	});
+
+	test("checkboxes should keep their gap to the label text", async () => {
+		await loadFixture(page, "forms", { dir: "rtl" });
+
+		const margin = await page.$eval('input[type="checkbox"]', (el) => {
+			const styles = getComputedStyle(el);
+			return {
+				left: Number.parseFloat(styles.marginLeft),
+				right: Number.parseFloat(styles.marginRight),
+			};
+		});
+
+		expect(margin.left).toBeGreaterThan(margin.right);
+	});
+
+	test("code blocks should stay left-to-right", async () => {
+		await loadFixture(page, "code", { dir: "rtl" });
+
+		const direction = await page.$eval(
+			"pre",
+			(el) => getComputedStyle(el).direction,
+		);
+
+		expect(direction).toBe("ltr");
+	});
+
+	test("demo page should render right-to-left without overflow", async () => {
+		await page.goto(`${BASE_URL}/rtl.html`, { waitUntil: "networkidle" });
+
+		const layout = await page.evaluate(() => ({
+			dir: document.documentElement.dir,
+			direction: getComputedStyle(document.body).direction,
+			overflows:
+				document.documentElement.scrollWidth >
+				document.documentElement.clientWidth,
+		}));
+
+		expect(layout).toEqual({ dir: "rtl", direction: "rtl", overflows: false });
+	});
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { buildJuice } from "../scripts/build";
+import { scopeCSS, scopeSelector, splitSelectors } from "../scripts/scope";
+
+/**
+ * Scoped Build Tests
+ * Verifies juice-scoped.css only styles elements inside the scope
+ */
+
+describe("Scoped Build", () => {
+	describe("scopeSelector", () => {
+		test("should nest element selectors under the scope", () => {
+			expect(scopeSelector("h1", ".juice")).toEqual([".juice h1"]);
+			expect(scopeSelector("details > *:not(summary)", ".juice")).toEqual([
+				".juice details > *:not(summary)",
+			]);
+			expect(scopeSelector("::selection", "[data-juice]")).toEqual([
+				"[data-juice] ::selection",
+			]);
+		});
+
+		test("should map :root, html and body onto the scope element", () => {
+			expect(scopeSelector(":root", ".juice")).toEqual([".juice"]);
+			expect(scopeSelector("html", ".juice")).toEqual([".juice"]);
+			expect(scopeSelector("body", "[data-juice]")).toEqual(["[data-juice]"]);
+			expect(scopeSelector("body > main", ".juice")).toEqual([".juice > main"]);
+		});
+
+		test("should not mistake other elements for html/body", () => {
+			expect(scopeSelector("bodyguard", ".juice")).toEqual([
+				".juice bodyguard",
+			]);
+		});
+
+		test("should apply data-theme on the scope or an ancestor", () => {
+			expect(scopeSelector('[data-theme="dark"]', ".juice")).toEqual([
+				'.juice[data-theme="dark"]',
+				'[data-theme="dark"] .juice',
+			]);
+		});
+	});
+
+	test("should split selector lists on top-level commas only", () => {
+		expect(splitSelectors('a,\nb:not([title="a,b"]), :is(c, d)')).toEqual([
+			"a",
+			'\nb:not([title="a,b"])',
+			" :is(c, d)",
+		]);
+	});
+
+	describe("scopeCSS", () => {
+		test("should keep formatting and comments", () => {
+			expect(scopeCSS("/* Headings */\nh1,\nh2 {\n    color: red;\n}\n")).toBe(
+				"/* Headings */\n.juice h1,\n.juice h2 {\n    color: red;\n}\n",
+			);
+		});
+
+		test("should merge html and body into one selector", () => {
+			expect(scopeCSS("html, body { margin: 0; }")).toBe(
+				".juice { margin: 0; }",
+			);
+		});
+
+		test("should scope rules inside grouping at-rules", () => {
+			expect(
+				scopeCSS("@media (max-width: 600px) { table { display: block; } }"),
+			).toBe("@media (max-width: 600px) { .juice table { display: block; } }");
+		});
+
+		test("should leave @page and @keyframes alone", () => {
+			const css =
+				"@page { margin: 2cm; } @keyframes fade { from { opacity: 0; } to { opacity: 1; } }";
+
+			expect(scopeCSS(css)).toBe(css);
+		});
+
+		test("should leave declarations untouched", () => {
+			const css =
+				':root { --select-arrow: url("data:image/svg+xml;charset=utf-8,a{b}"); }';
+
+			expect(scopeCSS(css, "[data-juice]")).toBe(
+				'[data-juice] { --select-arrow: url("data:image/svg+xml;charset=utf-8,a{b}"); }',
+			);
+		});
+	});
+
+	describe("juice-scoped.css", () => {
+		test("should match the committed out/ file", async () => {
+			const { outputs } = await buildJuice({
+				themes: ["scoped"],
+				write: false,
+			});
+
+			for (const output of outputs) {
+				expect(output.css).toBe(readFileSync(output.path, "utf-8"));
+			}
+		});
+
+		test("should not style anything outside the scope", async () => {
+			const [scoped] = (
+				await buildJuice({ themes: ["scoped"], minify: false, write: false })
+			).outputs;
+			const css = scoped!.css.replace(/\/\*[\s\S]*?\*\//g, "");
+
+			expect(css).not.toMatch(/(^|[{}]\s*)(html|body|:root|\*)[\s,{]/);
+			expect(css).toContain(".juice {");
+			expect(css).toContain(".juice h1");
+			expect(css).toContain('[data-theme="dark"] .juice');
+		});
+
+		test("should honour a custom scope", async () => {
+			const [scoped] = (
+				await buildJuice({
+					themes: ["scoped"],
+					scope: "[data-juice]",
+					minify: false,
+					write: false,
+				})
+			).outputs;
+
+			expect(scoped!.css).toContain("[data-juice] blockquote {");
+			expect(scoped!.css).not.toContain(".juice");
+		});
+	});
+});
@@ -1,6 +1,7 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { type Browser, chromium, type Page } from "playwright";
-import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+import { computedColor, loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
 
 /**
  * Semantic HTML Element Tests
@@ -8,6 +9,7 @@ import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
  *
  * These tests verify FRAMEWORK behavior (what users get from juice.css),
  * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
  */
 describe("Semantic HTML Styling", () => {
 	let browser: Browser;
@@ -17,7 +19,6 @@ describe("Semantic HTML Styling", () => {
 		browser = await chromium.launch(BROWSER_OPTIONS);
 		const context = await browser.newContext(CONTEXT_OPTIONS);
 		page = await context.newPage();
-		await page.goto(BASE_URL);
 	});
 
 	afterAll(async () => {
@@ -26,6 +27,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Typography Elements", () => {
 		test("headings should have consistent styling", async () => {
+			await loadFixture(page, "typography");
+
 			const headingStyles = await page.evaluate(() => {
 				const h1 = document.querySelector("h1");
 				const h2 = document.querySelector("h2");
@@ -53,6 +56,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("paragraphs should have proper spacing", async () => {
+			await loadFixture(page, "typography");
+
 			const paragraphSpacing = await page.evaluate(() => {
 				const p = document.querySelector("p");
 				if (!p) return null;
@@ -68,6 +73,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("links should be styled with color and hover effect", async () => {
+			await loadFixture(page, "typography");
+
 			const link = page.locator("a").first();
 
 			const normalStyle = await link.evaluate((el) => {
@@ -86,6 +93,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("strong/bold text should have higher font-weight", async () => {
+			await loadFixture(page, "typography");
+
 			const strongWeight = await page.evaluate(() => {
 				const strong = document.querySelector("strong");
 				return strong ? getComputedStyle(strong).fontWeight : null;
@@ -97,6 +106,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("code should use monospace font", async () => {
+			await loadFixture(page, "code");
+
 			const codeFontFamily = await page.evaluate(() => {
 				const code = document.querySelector("code");
 				return code ? getComputedStyle(code).fontFamily : null;
@@ -109,6 +120,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("blockquote should have border and styling", async () => {
+			await loadFixture(page, "typography");
+
 			const blockquoteStyle = await page.evaluate(() => {
 				const blockquote = document.querySelector("blockquote");
 				if (!blockquote) return null;
@@ -129,6 +142,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Form Elements", () => {
 		test("text inputs should be styled consistently", async () => {
+			await loadFixture(page, "forms");
+
 			const inputStyles = await page.evaluate(() => {
 				const input = document.querySelector("input[type='text']");
 				if (!input) return null;
@@ -146,6 +161,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("buttons should have consistent styling", async () => {
+			await loadFixture(page, "forms");
+
 			const buttonStyles = await page.evaluate(() => {
 				const button = document.querySelector("button");
 				if (!button) return null;
@@ -166,6 +183,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("select elements should match input styling", async () => {
+			await loadFixture(page, "forms");
+
 			const selectStyles = await page.evaluate(() => {
 				const select = document.querySelector("select");
 				const input = document.querySelector("input[type='text']");
@@ -190,6 +209,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("textarea should be resizable and styled", async () => {
+			await loadFixture(page, "forms");
+
 			const textareaStyles = await page.evaluate(() => {
 				const textarea = document.querySelector("textarea");
 				if (!textarea) return null;
@@ -209,6 +230,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("labels should have proper spacing from inputs", async () => {
+			await loadFixture(page, "forms");
+
 			const labelSpacing = await page.evaluate(() => {
 				const label = document.querySelector("label");
 				if (!label) return null;
@@ -225,6 +248,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("disabled inputs should look disabled", async () => {
+			await loadFixture(page, "forms");
+
 			const disabledButton = page.locator("button:disabled").first();
 			if ((await disabledButton.count()) > 0) {
 				const disabledStyles = await disabledButton.evaluate((el) => {
@@ -241,6 +266,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("checkboxes and radios should be inline with labels", async () => {
+			await loadFixture(page, "forms");
+
 			const checkboxLabel = await page.evaluate(() => {
 				const label = document.querySelector(
 					"label:has(input[type='checkbox'])",
@@ -261,6 +288,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Table Elements", () => {
 		test("tables should have proper styling", async () => {
+			await loadFixture(page, "tables");
+
 			const tableStyles = await page.evaluate(() => {
 				const table = document.querySelector("table");
 				if (!table) return null;
@@ -282,6 +311,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("tables should be full width of container", async () => {
+			await loadFixture(page, "tables");
+
 			const widthInfo = await page.evaluate(() => {
 				const table = document.querySelector("table");
 				if (!table) return null;
@@ -302,6 +333,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("table headers should be visually distinct", async () => {
+			await loadFixture(page, "tables");
+
 			const thStyles = await page.evaluate(() => {
 				const th = document.querySelector("th");
 				if (!th) return null;
@@ -322,6 +355,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("table rows should have hover effect", async () => {
+			await loadFixture(page, "tables");
+
 			const firstRow = page.locator("tbody tr").first();
 			if ((await firstRow.count()) > 0) {
 				const _normalBg = await firstRow.evaluate(
@@ -343,6 +378,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Media Elements", () => {
 		test("images should be responsive", async () => {
+			await loadFixture(page, "typography");
+
 			const imageStyles = await page.evaluate(() => {
 				const img = document.querySelector("img");
 				if (!img) return null;
@@ -366,6 +403,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Interactive Elements", () => {
 		test("details/summary should be styled", async () => {
+			await loadFixture(page, "details");
+
 			const summaryStyles = await page.evaluate(() => {
 				const summary = document.querySelector("summary");
 				if (!summary) return null;
@@ -386,6 +425,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("progress bars should be styled", async () => {
+			await loadFixture(page, "progress");
+
 			const progressStyles = await page.evaluate(() => {
 				const progress = document.querySelector("progress");
 				if (!progress) return null;
@@ -405,6 +446,8 @@ describe("Semantic HTML Styling", () => {
 
 	describe("Horizontal Rules", () => {
 		test("hr should have clean styling", async () => {
+			await loadFixture(page, "typography");
+
 			const hrStyles = await page.evaluate(() => {
 				const hr = document.querySelector("hr");
 				if (!hr) return null;
@@ -422,8 +465,206 @@ describe("Semantic HTML Styling", () => {
 		});
 	});
 
+	describe("Callouts", () => {
+		const callout = (selector: string) =>
+			page.$eval(selector, (el) => {
+				const styles = getComputedStyle(el);
+				return {
+					border: styles.borderLeftColor,
+					background: styles.backgroundColor,
+					fontStyle: styles.fontStyle,
+				};
+			});
+
+		// How GitHub renders > [!NOTE] style alerts
+		const GITHUB_ALERTS = ["note", "tip", "important", "warning", "caution"]
+			.map(
+				(type) => `
+				<div class="markdown-alert markdown-alert-${type}">
+					<p class="markdown-alert-title">
+						<svg viewBox="0 0 16 16" width="16" height="16" aria-hidden="true"><path d="M0 8a8 8 0 1 1 16 0A8 8 0 0 1 0 8Z"></path></svg>${type}
+					</p>
+					<p>Alert body.</p>
+				</div>`,
+			)
+			.join("");
+
+		test("callouts should be colored from the semantic tokens", async () => {
+			await loadFixture(page, "callouts");
+
+			const cases = [
+				['aside[role="note"]', "--links"],
+				['aside[role="alert"]', "--error"],
+				['blockquote[data-callout="warning"]', "--warning"],
+				['blockquote[data-callout="success"]', "--success"],
+			] as const;
+
+			for (const [selector, token] of cases) {
+				expect((await callout(selector)).border).toBe(
+					await computedColor(page, `var(${token})`),
+				);
+			}
+		});
+
+		test("callouts should have a tinted background", async () => {
+			await loadFixture(page, "callouts");
+
+			const pageBackground = await page.evaluate(
+				() => getComputedStyle(document.body).backgroundColor,
+			);
+			const note = await callout('aside[role="note"]');
+			const alert = await callout('aside[role="alert"]');
+
+			expect(note.background).not.toBe(pageBackground);
+			expect(note.background).not.toBe("rgba(0, 0, 0, 0)");
+			expect(note.background).not.toBe(alert.background);
+		});
+
+		test("tinted backgrounds should stay dark in dark mode", async () => {
+			await loadFixture(page, "callouts", { theme: "dark" });
+
+			// Any color syntax the browser serializes to - rgb() or color(srgb ...)
+			const lightness = await page.$eval('aside[role="note"]', (el) => {
+				const canvas = document.createElement("canvas").getContext("2d")!;
+				canvas.fillStyle = getComputedStyle(el).backgroundColor;
+				canvas.fillRect(0, 0, 1, 1);
+				const [r = 0, g = 0, b = 0] = canvas.getImageData(0, 0, 1, 1).data;
+				return (r + g + b) / (3 * 255);
+			});
+
+			expect(lightness).toBeLessThan(0.25);
+		});
+
+		test("callout quotes should not be italic, plain quotes should", async () => {
+			await loadFixture(page, "callouts");
+
+			expect(
+				(await callout('blockquote[data-callout="warning"]')).fontStyle,
+			).toBe("normal");
+			expect((await callout("blockquote:not([data-callout])")).fontStyle).toBe(
+				"italic",
+			);
+		});
+
+		test("GitHub markdown alerts should be styled", async () => {
+			await loadFixture(page, "callouts");
+			await page.$eval(
+				"main",
+				(main, html) => main.insertAdjacentHTML("beforeend", html),
+				GITHUB_ALERTS,
+			);
+
+			const cases = [
+				["note", "var(--links)"],
+				["important", "color-mix(in srgb, var(--links), var(--error))"],
+				["tip", "var(--success)"],
+				["warning", "var(--warning)"],
+				["caution", "var(--error)"],
+			] as const;
+
+			for (const [type, color] of cases) {
+				expect((await callout(`.markdown-alert-${type}`)).border).toBe(
+					await computedColor(page, color),
+				);
+			}
+
+			const icon = await page.$eval(
+				".markdown-alert-warning svg",
+				(el) => getComputedStyle(el).fill,
+			);
+			expect(icon).toBe(await computedColor(page, "var(--warning)"));
+		});
+	});
+
+	describe("Navigation", () => {
+		test("header nav links should sit in a row", async () => {
+			await loadFixture(page, "navigation");
+
+			const nav = await page.evaluate(() => {
+				const list = document.querySelector("article header nav ul")!;
+				const items = Array.from(list.querySelectorAll("li"));
+				const styles = getComputedStyle(list);
+				return {
+					display: styles.display,
+					listStyle: styles.listStyleType,
+					paddingLeft: styles.paddingLeft,
+					tops: items.map((item) => item.getBoundingClientRect().top),
+				};
+			});
+
+			expect(nav.display).toBe("flex");
+			expect(nav.listStyle).toBe("none");
+			expect(nav.paddingLeft).toBe("0px");
+			expect(new Set(nav.tops).size).toBe(1);
+		});
+
+		test('aria-current="page" link should stand out', async () => {
+			await loadFixture(page, "navigation");
+
+			const links = await page.evaluate(() => {
+				const style = (selector: string) => {
+					const styles = getComputedStyle(document.querySelector(selector)!);
+					return {
+						color: styles.color,
+						background: styles.backgroundColor,
+						weight: Number(styles.fontWeight),
+					};
+				};
+				return {
+					current: style('header nav a[aria-current="page"]'),
+					other: style('header nav a:not([aria-current="page"])'),
+				};
+			});
+
+			expect(links.current.color).not.toBe(links.other.color);
+			expect(links.current.background).not.toBe(links.other.background);
+			expect(links.current.weight).toBeGreaterThan(links.other.weight);
+		});
+
+		test("page header with a nav should stick to the top", async () => {
+			await loadFixture(page, "navigation");
+
+			const header = await page.evaluate(async () => {
+				const header = document.querySelector("body > header")!;
+				const styles = getComputedStyle(header);
+
+				// Make the page scroll well past the header - with content, since the
+				// header only sticks within the content box of <body>
+				document.querySelector("main")!.style.minHeight = "300vh";
+				window.scrollTo(0, 1000);
+				await new Promise(requestAnimationFrame);
+
+				return {
+					position: styles.position,
+					zIndex: styles.zIndex,
+					sticky: getComputedStyle(document.documentElement)
+						.getPropertyValue("--z-sticky")
+						.trim(),
+					top: header.getBoundingClientRect().top,
+				};
+			});
+
+			expect(header.position).toBe("sticky");
+			expect(header.zIndex).toBe(header.sticky);
+			expect(header.top).toBe(0);
+		});
+
+		test("headers inside content should not stick", async () => {
+			await loadFixture(page, "navigation");
+
+			const position = await page.$eval(
+				"article header",
+				(el) => getComputedStyle(el).position,
+			);
+
+			expect(position).toBe("static");
+		});
+	});
+
 	describe("Additional Semantic Elements", () => {
 		test("figure and figcaption should be styled", async () => {
+			await loadFixture(page, "typography");
+
 			const figureStyles = await page.evaluate(() => {
 				const figure = document.querySelector("figure");
 				const figcaption = document.querySelector("figcaption");
@@ -444,6 +685,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("definition lists should have proper hierarchy", async () => {
+			await loadFixture(page, "typography");
+
 			const dlStyles = await page.evaluate(() => {
 				const dt = document.querySelector("dt");
 				const dd = document.querySelector("dd");
@@ -465,6 +708,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("abbr should have help cursor and underline", async () => {
+			await loadFixture(page, "typography");
+
 			const abbrStyles = await page.evaluate(() => {
 				const abbr = document.querySelector("abbr[title]");
 				if (!abbr) return null;
@@ -482,6 +727,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("sub and sup should have proper positioning", async () => {
+			await loadFixture(page, "typography");
+
 			const scriptStyles = await page.evaluate(() => {
 				const sub = document.querySelector("sub");
 				const sup = document.querySelector("sup");
@@ -503,6 +750,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("cite should be styled", async () => {
+			await loadFixture(page, "typography");
+
 			const citeStyles = await page.evaluate(() => {
 				const cite = document.querySelector("cite");
 				if (!cite) return null;
@@ -518,6 +767,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("q (inline quote) should have proper quotes", async () => {
+			await loadFixture(page, "typography");
+
 			const qStyles = await page.evaluate(() => {
 				const q = document.querySelector("q");
 				if (!q) return null;
@@ -533,6 +784,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("address should be styled", async () => {
+			await loadFixture(page, "typography");
+
 			const addressStyles = await page.evaluate(() => {
 				const address = document.querySelector("address");
 				if (!address) return null;
@@ -550,6 +803,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("dialog should be styled with rounded corners and shadow", async () => {
+			await loadFixture(page, "dialog");
+
 			const dialogStyles = await page.evaluate(() => {
 				const dialog = document.querySelector("dialog");
 				if (!dialog) return null;
@@ -568,6 +823,8 @@ describe("Semantic HTML Styling", () => {
 		});
 
 		test("dialog should be functional", async () => {
+			await loadFixture(page, "dialog");
+
 			const openButton = page.locator("#open-dialog");
 			const dialog = page.locator("dialog");
 
@@ -0,0 +1,63 @@
+/**
+ * Test Setup
+ * Preloaded by bun test (see bunfig.toml) before any test file is loaded
+ *
+ * Runs the build and serves dist/ on an ephemeral port, then exposes the URL as
+ * BASE_URL for tests/test-config.ts. The server stops after the last test.
+ * It also serves the component fixtures and the out/ files they link. Set
+ * BASE_URL yourself to test the demo on an already running server (e.g. `bun dev`),
+ * the fixture suites need this one.
+ */
+
+import { afterAll } from "bun:test";
+import { resolve, sep } from "node:path";
+import { $, file, type Server } from "bun";
+
+const DIST_DIR = resolve("dist");
+
+/** URL prefixes and the directories they're served from - the demo is the rest */
+const ROOTS: [prefix: string, dir: string][] = [
+	["/tests/fixtures/", resolve("tests/fixtures")],
+	["/out/", resolve("out")],
+	["/", DIST_DIR],
+];
+
+let server: Server<undefined> | undefined;
+
+/**
+ * Serve the built demo site - `/` is dist/index.html - plus the component
+ * fixtures at /tests/fixtures/ and the out/ files they link
+ */
+export function serveDist(port = 0): Server<undefined> {
+	return Bun.serve({
+		port,
+		hostname: "localhost",
+		async fetch(request) {
+			const { pathname } = new URL(request.url);
+			const [prefix, dir] = ROOTS.find(([prefix]) =>
+				pathname.startsWith(prefix),
+			)!;
+			const path = resolve(
+				dir,
+				`./${decodeURIComponent(pathname === "/" ? "index.html" : pathname.slice(prefix.length))}`,
+			);
+
+			const asset = file(path);
+			if (!path.startsWith(dir + sep) || !(await asset.exists())) {
+				return new Response("Not Found", { status: 404 });
+			}
+			return new Response(asset);
+		},
+	});
+}
+
+if (!process.env.BASE_URL) {
+	await $`bun run build`.quiet();
+
+	server = serveDist();
+	process.env.BASE_URL = server.url.origin;
+}
+
+afterAll(async () => {
+	await server?.stop(true);
+});
@@ -0,0 +1,174 @@
+/**
+ * Screenshot Snapshots
+ * Compares Playwright screenshots against committed PNG baselines
+ *
+ * The PNGs are decoded and diffed inside the browser (canvas ImageData), so no
+ * image libraries are needed.
+ *
+ * Update baselines with: bun run test:visual:update
+ * (bun test doesn't expose its --update-snapshots flag to tests, the script
+ * sets UPDATE_SNAPSHOTS=1 instead)
+ */
+
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { Page } from "playwright";
+
+export const SNAPSHOT_DIR = "tests/__screenshots__";
+export const DIFF_DIR = join(SNAPSHOT_DIR, "__diff__");
+
+export const UPDATE_SNAPSHOTS = ["1", "true"].includes(
+	process.env.UPDATE_SNAPSHOTS ?? "",
+);
+
+export interface SnapshotOptions {
+	/** Per-pixel color distance (0-1) below which pixels count as equal (default: 0.1) */
+	threshold?: number;
+	/** Fraction of pixels allowed to differ (default: 0.001) */
+	maxDiffPixelRatio?: number;
+}
+
+export interface SnapshotResult {
+	name: string;
+	status: "match" | "written" | "mismatch";
+	/** Why the snapshot didn't match, with the diff image path */
+	message?: string;
+}
+
+interface PixelDiff {
+	sizeMismatch?: string;
+	diffPixels: number;
+	totalPixels: number;
+	/** Base64 PNG - differing pixels in red over a faded copy of the baseline */
+	diff: string;
+}
+
+// Runs in the browser - decode both PNGs and count differing pixels
+async function diffInBrowser({
+	actual,
+	expected,
+	threshold,
+}: {
+	actual: string;
+	expected: string;
+	threshold: number;
+}): Promise<PixelDiff> {
+	const decode = async (base64: string) => {
+		const blob = await (await fetch(`data:image/png;base64,${base64}`)).blob();
+		const bitmap = await createImageBitmap(blob);
+		const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+		const context = canvas.getContext("2d")!;
+		context.drawImage(bitmap, 0, 0);
+		return context.getImageData(0, 0, bitmap.width, bitmap.height);
+	};
+
+	const [a, b] = await Promise.all([decode(actual), decode(expected)]);
+	if (a.width !== b.width || a.height !== b.height) {
+		return {
+			sizeMismatch: `${a.width}x${a.height} vs baseline ${b.width}x${b.height}`,
+			diffPixels: a.width * a.height,
+			totalPixels: a.width * a.height,
+			diff: "",
+		};
+	}
+
+	const output = new ImageData(a.width, a.height);
+	const maxDistance = Math.sqrt(255 * 255 * 4);
+	let diffPixels = 0;
+
+	for (let i = 0; i < a.data.length; i += 4) {
+		let sum = 0;
+		for (let channel = 0; channel < 4; channel++) {
+			const delta = a.data[i + channel]! - b.data[i + channel]!;
+			sum += delta * delta;
+		}
+
+		if (Math.sqrt(sum) / maxDistance > threshold) {
+			diffPixels++;
+			output.data.set([255, 0, 0, 255], i);
+		} else {
+			const gray = (b.data[i]! + b.data[i + 1]! + b.data[i + 2]!) / 3;
+			output.data.set([gray, gray, gray, 64], i);
+		}
+	}
+
+	const canvas = new OffscreenCanvas(a.width, a.height);
+	canvas.getContext("2d")!.putImageData(output, 0, 0);
+	const bytes = new Uint8Array(
+		await (await canvas.convertToBlob({ type: "image/png" })).arrayBuffer(),
+	);
+	let binary = "";
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+
+	return { diffPixels, totalPixels: a.width * a.height, diff: btoa(binary) };
+}
+
+const writePNG = async (path: string, png: Buffer | Uint8Array) => {
+	mkdirSync(dirname(path), { recursive: true });
+	await Bun.write(path, png);
+};
+
+/**
+ * Compare a screenshot with its baseline
+ *
+ * A missing baseline fails - only UPDATE_SNAPSHOTS=1 writes baselines, and it
+ * overwrites every one of them.
+ */
+export async function compareScreenshot(
+	page: Page,
+	name: string,
+	screenshot: Buffer,
+	options: SnapshotOptions = {},
+): Promise<SnapshotResult> {
+	const { threshold = 0.1, maxDiffPixelRatio = 0.001 } = options;
+	const baseline = join(SNAPSHOT_DIR, `${name}.png`);
+
+	if (UPDATE_SNAPSHOTS) {
+		await writePNG(baseline, screenshot);
+		return { name, status: "written" };
+	}
+
+	if (!existsSync(baseline)) {
+		return {
+			name,
+			status: "mismatch",
+			message: `missing baseline ${baseline} - run bun run test:visual:update`,
+		};
+	}
+
+	const expected = Buffer.from(await Bun.file(baseline).arrayBuffer());
+	if (expected.equals(screenshot)) {
+		return { name, status: "match" };
+	}
+
+	// Decode on a blank page so the page under test isn't disturbed
+	const blank = await page.context().newPage();
+	try {
+		const result = await blank.evaluate(diffInBrowser, {
+			actual: screenshot.toString("base64"),
+			expected: expected.toString("base64"),
+			threshold,
+		});
+
+		const ratio = result.diffPixels / result.totalPixels;
+		if (!result.sizeMismatch && ratio <= maxDiffPixelRatio) {
+			return { name, status: "match" };
+		}
+
+		await writePNG(join(DIFF_DIR, `${name}-actual.png`), screenshot);
+		if (result.diff) {
+			await writePNG(
+				join(DIFF_DIR, `${name}-diff.png`),
+				Buffer.from(result.diff, "base64"),
+			);
+		}
+
+		return {
+			name,
+			status: "mismatch",
+			message: `${name}: ${result.sizeMismatch ?? `${result.diffPixels} pixels (${(ratio * 100).toFixed(2)}%) differ`} - see ${DIFF_DIR}/`,
+		};
+	} finally {
+		await blank.close();
+	}
+}
@@ -3,10 +3,9 @@
  * Centralizes test settings to avoid hardcoded values across test files
  */
 
-// The dev server port - tests should use this instead of hardcoding
-// When running `bun dev`, Bun will use the first available port starting from 3000
-export const TEST_PORT = process.env.TEST_PORT || "3000";
-export const BASE_URL = `http://localhost:${TEST_PORT}`;
+// Set by tests/setup.ts, which builds and serves dist/ on an ephemeral port
+// Export BASE_URL before running the tests to use another server (e.g. `bun dev`)
+export const BASE_URL = process.env.BASE_URL ?? "http://localhost:3000";
 
 // Viewport presets for responsive testing
 export const VIEWPORTS = {
@@ -16,6 +15,19 @@ export const VIEWPORTS = {
 	wide: { width: 1920, height: 1080, name: "Wide Desktop" },
 } as const;
 
+// Real device sizes for the responsive and accessibility suites
+export const DEVICE_VIEWPORTS = [
+	{ name: "iPhone SE", width: 375, height: 667, type: "mobile" },
+	{ name: "iPhone 12 Pro", width: 390, height: 844, type: "mobile" },
+	{ name: "iPhone 14 Pro Max", width: 430, height: 932, type: "mobile" },
+	{ name: "iPad Mini", width: 768, height: 1024, type: "tablet" },
+	{ name: "iPad Pro 11", width: 834, height: 1194, type: "tablet" },
+	{ name: "iPad Pro 12.9", width: 1024, height: 1366, type: "tablet" },
+	{ name: "Laptop", width: 1280, height: 800, type: "desktop" },
+	{ name: "Desktop", width: 1920, height: 1080, type: "desktop" },
+	{ name: "4K Desktop", width: 2560, height: 1440, type: "desktop" },
+] as const;
+
 // Default browser launch options
 export const BROWSER_OPTIONS = {
 	headless: true,
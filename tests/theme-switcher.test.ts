@@ -0,0 +1,541 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { type Browser, chromium, type Page } from "playwright";
+import type { JuiceThemeSwitcher, ThemeState } from "../src/lib/theme-switcher";
+import { loadFixture } from "./fixtures";
+import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * Theme Switcher Tests
+ * Verifies the <juice-theme-switcher> element built to
+ * out/juice-theme-switcher.js: rendering, persistence, events and syncing
+ * across tabs, plus out/juice-theme-init.js, which applies the saved theme
+ * before first paint
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the theme-switcher fixture in tests/fixtures/.
+ */
+
+const THEME_SWITCHER_SCRIPT = "out/juice-theme-switcher.js";
+const THEME_INIT_SCRIPT = "out/juice-theme-init.js";
+
+describe("Theme Switcher", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	/** Load the fixture with the given saved storage, then the script */
+	const open = async (saved: Record<string, string> = {}) => {
+		await loadFixture(page, "theme-switcher");
+		await page.evaluate((entries) => {
+			localStorage.clear();
+			for (const [key, value] of Object.entries(entries)) {
+				localStorage.setItem(key, value);
+			}
+		}, saved);
+		await page.addScriptTag({ path: THEME_SWITCHER_SCRIPT });
+	};
+
+	const state = () =>
+		page.evaluate(() => ({
+			dataTheme: document.documentElement.dataset.theme ?? null,
+			stored: localStorage.getItem("theme"),
+		}));
+
+	test("should render a select with the default themes", async () => {
+		await open();
+
+		const select = await page.$eval(
+			"#select select",
+			(el: HTMLSelectElement) => ({
+				label: el.getAttribute("aria-label"),
+				options: Array.from(el.options).map((option) => [
+					option.value,
+					option.text,
+				]),
+				value: el.value,
+			}),
+		);
+
+		expect(select).toEqual({
+			label: "Theme",
+			options: [
+				["auto", "Auto"],
+				["light", "Light"],
+				["dark", "Dark"],
+			],
+			value: "auto",
+		});
+	});
+
+	test("should apply and save a theme and fire themechange", async () => {
+		await open();
+		await page.evaluate(() => {
+			document.addEventListener("themechange", (event) => {
+				window.name = JSON.stringify((event as CustomEvent).detail);
+			});
+		});
+
+		await page.selectOption("#select select", "dark");
+
+		expect(await state()).toEqual({ dataTheme: "dark", stored: "dark" });
+		expect(JSON.parse(await page.evaluate(() => window.name))).toEqual({
+			theme: "dark",
+			previous: "auto",
+		});
+	});
+
+	test('"auto" should remove data-theme and the saved theme', async () => {
+		await open({ theme: "dark" });
+
+		await page.selectOption("#select select", "auto");
+
+		expect(await state()).toEqual({ dataTheme: null, stored: null });
+	});
+
+	test("should restore the saved theme on load", async () => {
+		await open({ theme: "dark" });
+
+		expect(await state()).toEqual({ dataTheme: "dark", stored: "dark" });
+		expect(
+			await page.$eval("#select select", (el: HTMLSelectElement) => el.value),
+		).toBe("dark");
+	});
+
+	test("should render a segmented control of radios", async () => {
+		await open();
+
+		const group = await page.$eval("#segmented [role=radiogroup]", (el) => ({
+			label: el.getAttribute("aria-label"),
+			options: Array.from(el.querySelectorAll("label")).map((label) =>
+				label.textContent?.trim(),
+			),
+			checked: el.querySelector<HTMLInputElement>(":checked")?.value,
+		}));
+
+		expect(group).toEqual({
+			label: "Theme",
+			options: ["Auto", "Light", "Dark", "Sepia"],
+			checked: "auto",
+		});
+
+		await page.click("#segmented label:has(input[value=sepia])");
+		expect(await state()).toEqual({ dataTheme: "sepia", stored: "sepia" });
+	});
+
+	test("toggle should cycle through its themes", async () => {
+		await open();
+		const toggle = page.locator("#toggle button");
+
+		await toggle.click();
+		expect((await state()).dataTheme).toBe("light");
+		expect(await toggle.textContent()).toBe("Theme: Light");
+
+		await toggle.click();
+		expect((await state()).dataTheme).toBe("dark");
+		expect(await toggle.textContent()).toBe("Theme: Dark");
+
+		await toggle.click();
+		expect((await state()).dataTheme).toBe("light");
+	});
+
+	test("every switcher on the page should show the applied theme", async () => {
+		await open();
+
+		await page.selectOption("#select select", "dark");
+
+		const shown = await page.evaluate(() => ({
+			segmented: document.querySelector<HTMLInputElement>("#segmented :checked")
+				?.value,
+			toggle: document.querySelector("#toggle button")?.textContent,
+		}));
+
+		expect(shown).toEqual({ segmented: "dark", toggle: "Theme: Dark" });
+	});
+
+	test("a select should show a theme it doesn't offer while it's applied", async () => {
+		await open();
+		const select = () =>
+			page.$eval("#select select", (el: HTMLSelectElement) => ({
+				value: el.value,
+				options: Array.from(el.options).map((option) => option.text),
+			}));
+
+		// #select offers auto, light and dark - the segmented switcher also sepia
+		await page.click("#segmented label:has(input[value=sepia])");
+		expect(await select()).toEqual({
+			value: "sepia",
+			options: ["Auto", "Light", "Dark", "Sepia"],
+		});
+
+		await page.selectOption("#select select", "dark");
+		expect(await select()).toEqual({
+			value: "dark",
+			options: ["Auto", "Light", "Dark"],
+		});
+	});
+
+	test("should save under the storage-key attribute", async () => {
+		await open();
+
+		await page.evaluate(() => {
+			const switcher = document.createElement("juice-theme-switcher");
+			switcher.id = "custom-key";
+			switcher.setAttribute("storage-key", "site-theme");
+			document.querySelector("main")!.append(switcher);
+		});
+		await page.selectOption("#custom-key select", "dark");
+
+		const stored = await page.evaluate(() => ({
+			custom: localStorage.getItem("site-theme"),
+			default: localStorage.getItem("theme"),
+		}));
+		expect(stored).toEqual({ custom: "dark", default: null });
+	});
+
+	test("should keep a select already in the markup and match its options to themes", async () => {
+		await loadFixture(page, "theme-switcher");
+		await page.evaluate(() => {
+			localStorage.clear();
+			document.querySelector("main")!.insertAdjacentHTML(
+				"beforeend",
+				`<juice-theme-switcher id="markup" themes="auto light dark sepia">
+					<select id="own-select">
+						<option value="auto">System</option>
+						<option value="neon">Neon</option>
+					</select>
+				</juice-theme-switcher>`,
+			);
+		});
+		await page.addScriptTag({ path: THEME_SWITCHER_SCRIPT });
+
+		const options = () =>
+			page.$eval("#markup select", (el: HTMLSelectElement) => ({
+				id: el.id,
+				options: Array.from(el.options).map((option) => option.text),
+			}));
+
+		expect(await options()).toEqual({
+			id: "own-select",
+			options: ["System", "Light", "Dark", "Sepia"],
+		});
+
+		await page.$eval("#markup", (el: JuiceThemeSwitcher) => {
+			el.themes = ["dark", "auto"];
+		});
+		expect(await options()).toEqual({
+			id: "own-select",
+			options: ["Dark", "System"],
+		});
+	});
+});
+
+describe("Theme Sync", () => {
+	let browser: Browser;
+	let first: Page;
+	let second: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		// Two tabs of one browser profile share localStorage
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		first = await context.newPage();
+		second = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	const open = async (page: Page) => {
+		await loadFixture(page, "theme-switcher");
+		await page.addScriptTag({ path: THEME_SWITCHER_SCRIPT });
+	};
+
+	/** Open both tabs with nothing saved */
+	const openBoth = async () => {
+		await loadFixture(first, "theme-switcher");
+		await first.evaluate(() => localStorage.clear());
+		await first.addScriptTag({ path: THEME_SWITCHER_SCRIPT });
+		await open(second);
+	};
+
+	/** Record every state the subscribe API reports in window.themeStates */
+	const record = (page: Page) =>
+		page.evaluate(() => {
+			const states: ThemeState[] = [];
+			Object.assign(window, { themeStates: states });
+			const switcher = customElements.get(
+				"juice-theme-switcher",
+			) as typeof JuiceThemeSwitcher;
+			const unsubscribe = switcher.subscribe((state) => states.push(state));
+			Object.assign(window, { unsubscribeTheme: unsubscribe });
+		});
+
+	const recorded = (page: Page) =>
+		page.evaluate(
+			() => (window as unknown as { themeStates: ThemeState[] }).themeStates,
+		);
+
+	const waitForTheme = (page: Page, theme: string | null) =>
+		page.waitForFunction(
+			(theme) => (document.documentElement.dataset.theme ?? null) === theme,
+			theme,
+		);
+
+	test("a choice in one tab should apply in the other", async () => {
+		await openBoth();
+
+		await first.selectOption("#select select", "dark");
+		await waitForTheme(second, "dark");
+
+		expect(
+			await second.$eval("#select select", (el: HTMLSelectElement) => el.value),
+		).toBe("dark");
+		expect(
+			await second.$eval(
+				'meta[name="color-scheme"]',
+				(el: HTMLMetaElement) => el.content,
+			),
+		).toBe("dark");
+	});
+
+	test('"auto" in one tab should clear data-theme in the other', async () => {
+		await openBoth();
+		await first.selectOption("#select select", "dark");
+		await waitForTheme(second, "dark");
+
+		await first.selectOption("#select select", "auto");
+		await waitForTheme(second, null);
+
+		expect(
+			await second.$eval(
+				"#segmented :checked",
+				(el: HTMLInputElement) => el.value,
+			),
+		).toBe("auto");
+	});
+
+	test("should follow the BroadcastChannel without touching storage", async () => {
+		await openBoth();
+
+		// What setTheme posts when localStorage is unavailable
+		await first.evaluate(() => {
+			const channel = new BroadcastChannel("juice-theme:theme");
+			channel.postMessage("sepia");
+			channel.close();
+		});
+		await waitForTheme(second, "sepia");
+
+		expect(await second.evaluate(() => localStorage.getItem("theme"))).toBe(
+			null,
+		);
+	});
+
+	test("restoring the saved theme should not broadcast it", async () => {
+		await loadFixture(second, "theme-switcher");
+		await second.evaluate(() => {
+			localStorage.setItem("theme", "dark");
+			const broadcasts: string[] = [];
+			Object.assign(window, { broadcasts });
+			new BroadcastChannel("juice-theme:theme").onmessage = (event) =>
+				broadcasts.push(event.data);
+		});
+		const broadcasts = () =>
+			second.evaluate(
+				() => (window as unknown as { broadcasts: string[] }).broadcasts,
+			);
+
+		// Restores on connect and again on every attribute change
+		await loadFixture(first, "theme-switcher");
+		await first.addScriptTag({ path: THEME_SWITCHER_SCRIPT });
+		await first.$eval("#select", (el: JuiceThemeSwitcher) => {
+			el.label = "Mode";
+		});
+		await waitForTheme(first, "dark");
+		await second.waitForTimeout(200);
+		expect(await broadcasts()).toEqual([]);
+
+		await first.selectOption("#select select", "light");
+		await second.waitForFunction(
+			() => (window as unknown as { broadcasts: string[] }).broadcasts.length,
+		);
+		expect(await broadcasts()).toEqual(["light"]);
+	});
+
+	test("should report the resolved theme as the system scheme changes", async () => {
+		await first.emulateMedia({ colorScheme: "light" });
+		await openBoth();
+		await record(first);
+
+		await first.emulateMedia({ colorScheme: "dark" });
+		await first.waitForFunction(
+			() =>
+				(window as unknown as { themeStates: unknown[] }).themeStates.length ===
+				2,
+		);
+		await first.emulateMedia({ colorScheme: null });
+
+		expect(await recorded(first)).toEqual([
+			{ preference: "auto", resolved: "light", colorScheme: "light" },
+			{ preference: "auto", resolved: "dark", colorScheme: "dark" },
+		]);
+	});
+
+	test("named themes should ignore the system scheme", async () => {
+		await first.emulateMedia({ colorScheme: "light" });
+		await openBoth();
+		await first.selectOption("#select select", "dark");
+		await record(first);
+
+		await first.emulateMedia({ colorScheme: "dark" });
+		await first.emulateMedia({ colorScheme: "light" });
+		await first.emulateMedia({ colorScheme: null });
+
+		expect(await recorded(first)).toEqual([
+			{ preference: "dark", resolved: "dark", colorScheme: "dark" },
+		]);
+	});
+
+	test("should report a choice made in another tab", async () => {
+		await second.emulateMedia({ colorScheme: "dark" });
+		await openBoth();
+		await record(second);
+
+		await first.click("#segmented label:has(input[value=sepia])");
+		await waitForTheme(second, "sepia");
+		await second.emulateMedia({ colorScheme: null });
+
+		expect(await recorded(second)).toEqual([
+			{ preference: "auto", resolved: "dark", colorScheme: "dark" },
+			{ preference: "sepia", resolved: "sepia", colorScheme: "light" },
+		]);
+	});
+
+	test("should stop reporting after unsubscribing", async () => {
+		await openBoth();
+		await record(first);
+
+		await first.evaluate(() =>
+			(
+				window as unknown as { unsubscribeTheme: () => void }
+			).unsubscribeTheme(),
+		);
+		await first.selectOption("#select select", "dark");
+
+		expect(await recorded(first)).toHaveLength(1);
+	});
+});
+
+describe("Theme Init", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	/** Run the init script as a blocking <script>, like it ships */
+	const init = (saved: Record<string, string>, storageKey?: string) =>
+		page.evaluate(
+			({ saved, storageKey, code }) => {
+				localStorage.clear();
+				for (const [key, value] of Object.entries(saved)) {
+					localStorage.setItem(key, value);
+				}
+				const script = document.createElement("script");
+				if (storageKey) script.dataset.storageKey = storageKey;
+				script.textContent = code;
+				document.head.append(script);
+
+				return {
+					dataTheme: document.documentElement.dataset.theme ?? null,
+					meta:
+						document.querySelector<HTMLMetaElement>('meta[name="color-scheme"]')
+							?.content ?? null,
+					colorScheme: getComputedStyle(document.documentElement).colorScheme,
+				};
+			},
+			{ saved, storageKey, code: readFileSync(THEME_INIT_SCRIPT, "utf-8") },
+		);
+
+	test("should apply the saved theme with a matching color-scheme", async () => {
+		await loadFixture(page, "theme-switcher");
+
+		expect(await init({ theme: "dark" })).toEqual({
+			dataTheme: "dark",
+			meta: "dark",
+			colorScheme: "dark",
+		});
+	});
+
+	test("light themes should use the light color-scheme", async () => {
+		await loadFixture(page, "theme-switcher");
+
+		expect(await init({ theme: "sepia" })).toEqual({
+			dataTheme: "sepia",
+			meta: "light",
+			colorScheme: "light",
+		});
+	});
+
+	test("should leave auto to prefers-color-scheme", async () => {
+		await page.emulateMedia({ colorScheme: "dark" });
+		await loadFixture(page, "theme-switcher");
+		const state = await init({});
+		await page.emulateMedia({ colorScheme: null });
+
+		expect(state).toEqual({
+			dataTheme: null,
+			meta: "light dark",
+			colorScheme: "dark",
+		});
+	});
+
+	test("should read the data-storage-key of its script", async () => {
+		await loadFixture(page, "theme-switcher");
+
+		const state = await init(
+			{ theme: "light", "site-theme": "high-contrast" },
+			"site-theme",
+		);
+
+		expect(state.dataTheme).toBe("high-contrast");
+	});
+
+	test("the demo should be themed before <body> is parsed", async () => {
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		const demo = await context.newPage();
+		await demo.addInitScript(() => {
+			localStorage.setItem("theme", "dark");
+			// Record the theme the moment <body> exists - before the first paint
+			new MutationObserver((_, observer) => {
+				if (!document.body) return;
+				window.name = document.documentElement.dataset.theme ?? "";
+				observer.disconnect();
+			}).observe(document, { childList: true, subtree: true });
+		});
+
+		await demo.goto(BASE_URL, { waitUntil: "domcontentloaded" });
+		const themeAtBody = await demo.evaluate(() => window.name);
+		await context.close();
+
+		expect(themeAtBody).toBe("dark");
+	});
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { derivePalette, generateTheme } from "../scripts/theme";
+
+/**
+ * Theme Generator Tests
+ * Verifies palettes derived from a seed color and the shape of generated files
+ */
+
+// Value of a custom property in a variables file
+const variableValue = (css: string, name: string) =>
+	css.match(new RegExp(`^\\s*${name}:\\s*([^;]+);`, "m"))?.[1];
+
+// Custom property names in declaration order
+const variableNames = (css: string) =>
+	Array.from(css.matchAll(/^\s*(--[\w-]+):/gm), (match) => match[1]);
+
+describe("Theme Generator", () => {
+	describe("derivePalette", () => {
+		test("should use the seed as the light accent", () => {
+			const { light } = derivePalette("#007aff");
+
+			expect(light["--links"]).toBe("#007aff");
+			expect(light["--button-base"]).toBe("#007aff");
+			expect(light["--focus"]).toBe("rgba(0, 122, 255, 0.4)");
+			expect(light["--selection"]).toBe("rgba(0, 122, 255, 0.2)");
+			expect(light["--button-text"]).toBe("#ffffff");
+		});
+
+		test("should reproduce the stock light hover state", () => {
+			const { light } = derivePalette("#007aff");
+
+			expect(light["--button-hover"]).toBe(
+				variableValue(
+					readFileSync("src/lib/variables-light.css", "utf-8"),
+					"--button-hover",
+				),
+			);
+		});
+
+		test("should lift the stock accent to the shipped dark palette", () => {
+			const { dark } = derivePalette("#007aff");
+			const source = readFileSync("src/lib/variables-dark.css", "utf-8");
+
+			for (const name of [
+				"--links",
+				"--focus",
+				"--selection",
+				"--button-base",
+				"--button-hover",
+			]) {
+				expect(dark[name]).toBe(variableValue(source, name));
+			}
+			expect(dark["--links"]).toBe("#0a84ff");
+			expect(dark["--button-hover"]).toBe("#409cff");
+		});
+
+		test("should switch to dark button text on light accents", () => {
+			const { light } = derivePalette("#ffcc00");
+
+			expect(light["--button-text"]).toBe("#000000");
+		});
+
+		test("should accept rgb() seeds", () => {
+			const { light } = derivePalette("rgb(255, 45, 85)");
+
+			expect(light["--links"]).toBe("#ff2d55");
+		});
+
+		test("should reject invalid seeds", () => {
+			expect(() => derivePalette("blue")).toThrow("Invalid seed color");
+		});
+	});
+
+	describe("generateTheme", () => {
+		test("should keep the shape of the variables files", async () => {
+			const theme = await generateTheme("#ff2d55", { name: "brand" });
+			const lightSource = readFileSync("src/lib/variables-light.css", "utf-8");
+			const darkSource = readFileSync("src/lib/variables-dark.css", "utf-8");
+
+			expect(variableNames(theme.light)).toEqual(variableNames(lightSource));
+			expect(variableNames(theme.dark)).toEqual(variableNames(darkSource));
+		});
+
+		test("should only change accent-derived variables", async () => {
+			const theme = await generateTheme("#ff2d55", { name: "brand" });
+
+			expect(theme.light).toContain("--links: #ff2d55;");
+			expect(theme.light).toContain("--background: #f5f5f7;");
+			expect(theme.light).toContain("--space-4: 1rem;");
+			expect(theme.dark).toContain("--background-body: #000000;");
+		});
+
+		test("should emit a data-theme block for both modes", async () => {
+			const theme = await generateTheme("#ff2d55", { name: "brand" });
+
+			expect(theme.dataTheme).toContain('[data-theme="brand"] {');
+			expect(theme.dataTheme).toContain("@media (prefers-color-scheme: dark)");
+			expect(theme.dataTheme).not.toContain(":root");
+		});
+
+		test("should reject invalid theme names", async () => {
+			await expect(generateTheme("#ff2d55", { name: '"><' })).rejects.toThrow(
+				"Invalid theme name",
+			);
+		});
+	});
+});
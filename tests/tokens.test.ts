@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+import { cssVar, themes, tokens, vars } from "../out/tokens.js";
+import { parseVariables } from "../scripts/contrast-audit";
+import {
+	buildTokens,
+	renderColorSchemes,
+	renderVariables,
+	tokenValues,
+} from "../scripts/tokens";
+import { COLOR_SCHEMES } from "../src/lib/theme-store";
+import { type ThemeName, themes as themeSources } from "../src/lib/tokens";
+
+/**
+ * Design Token Tests
+ * Verifies every generated file is in sync with src/lib/tokens.ts
+ */
+
+describe("Design Tokens", () => {
+	test("committed variables files should match the token source", () => {
+		for (const name of ["light", "dark", "high-contrast", "sepia"] as const) {
+			expect(readFileSync(`src/lib/variables-${name}.css`, "utf-8")).toBe(
+				renderVariables(name),
+			);
+		}
+	});
+
+	test("committed color-schemes.ts should match the token source", () => {
+		expect(readFileSync("src/lib/color-schemes.ts", "utf-8")).toBe(
+			renderColorSchemes(),
+		);
+	});
+
+	test("committed out/ token files should match the token source", async () => {
+		const { files } = await buildTokens({ write: false });
+
+		for (const path of [
+			"out/tokens.json",
+			"out/tokens.js",
+			"out/tokens.d.ts",
+		]) {
+			expect(readFileSync(path, "utf-8")).toBe(files[path]!);
+		}
+	});
+
+	test("should only emit design tokens into the light theme", () => {
+		const light = parseVariables(renderVariables("light"));
+		const dark = parseVariables(renderVariables("dark"));
+
+		expect(light["--space-4"]).toBe("1rem");
+		expect(light["--z-modal"]).toBeDefined();
+		expect(dark["--space-4"]).toBeUndefined();
+		expect(dark["--background-body"]).toBeDefined();
+	});
+
+	test("tokens.json should hold the same values as the CSS", () => {
+		const json = JSON.parse(readFileSync("out/tokens.json", "utf-8"));
+		const light = readFileSync("src/lib/variables-light.css", "utf-8");
+
+		expect(json).toEqual(tokenValues());
+		for (const [name, value] of Object.entries({
+			...json.tokens,
+			...json.themes.light,
+		})) {
+			expect(light).toContain(`--${name}: ${value};`);
+		}
+	});
+
+	test("every theme should set its color-scheme", () => {
+		for (const [name, theme] of Object.entries(themeSources)) {
+			expect(renderVariables(name as ThemeName)).toContain(
+				`:root {\n\tcolor-scheme: ${theme.colorScheme};`,
+			);
+			// The theme scripts set the matching <meta name="color-scheme">
+			expect(COLOR_SCHEMES[name]).toBe(theme.colorScheme);
+		}
+	});
+
+	test("should keep the trailing comments of the source", () => {
+		expect(renderVariables("light")).toContain(
+			"--font-size-large-title: 2.125rem; /* 34px / 16px */",
+		);
+	});
+
+	describe("tokens.js", () => {
+		test("should export typed constants", () => {
+			const space: "1rem" = tokens["space-4"];
+			const background: "#1c1c1e" = themes.dark.background;
+
+			expect(space).toBe("1rem");
+			expect(background).toBe("#1c1c1e");
+		});
+
+		test("should build var() references", () => {
+			const reference: "var(--space-4)" = vars["space-4"];
+
+			expect(reference).toBe("var(--space-4)");
+			expect(vars.links).toBe("var(--links)");
+			expect(cssVar("radius-md")).toBe("var(--radius-md)");
+			expect(cssVar("links", "blue")).toBe("var(--links, blue)");
+		});
+
+		test("should have a var() reference for every token", () => {
+			expect(Object.keys(vars).sort()).toEqual(
+				[...Object.keys(tokens), ...Object.keys(themes.light)].sort(),
+			);
+		});
+	});
+});
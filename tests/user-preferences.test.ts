@@ -0,0 +1,231 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type Browser, chromium, type Page } from "playwright";
+import { computedColor, loadFixture } from "./fixtures";
+import { BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+
+/**
+ * User Preference Tests
+ * Verifies juice.css honors prefers-reduced-motion, prefers-contrast: more
+ * and forced-colors: active
+ *
+ * These tests verify FRAMEWORK behavior (what users get from juice.css),
+ * not demo-specific features.
+ * They run against the component fixtures in tests/fixtures/.
+ */
+describe("User Preferences", () => {
+	let browser: Browser;
+	let page: Page;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+		const context = await browser.newContext(CONTEXT_OPTIONS);
+		page = await context.newPage();
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	describe("prefers-reduced-motion: reduce", () => {
+		beforeAll(async () => {
+			await page.emulateMedia({ reducedMotion: "reduce" });
+		});
+
+		afterAll(async () => {
+			await page.emulateMedia({ reducedMotion: null });
+		});
+
+		test("should zero out the animation duration token", async () => {
+			await loadFixture(page, "forms");
+
+			const duration = await page.evaluate(() =>
+				getComputedStyle(document.documentElement)
+					.getPropertyValue("--animation-duration")
+					.trim(),
+			);
+
+			expect(duration).toBe("0s");
+		});
+
+		test("should not transition form controls, links or summaries", async () => {
+			const durations: string[] = [];
+
+			await loadFixture(page, "forms");
+			durations.push(
+				await page.$eval(
+					"#name",
+					(el) => getComputedStyle(el).transitionDuration,
+				),
+			);
+
+			await loadFixture(page, "typography");
+			durations.push(
+				await page.$eval("a", (el) => getComputedStyle(el).transitionDuration),
+			);
+
+			await loadFixture(page, "details");
+			durations.push(
+				await page.$eval(
+					"summary",
+					(el) => getComputedStyle(el, "::after").transitionDuration,
+				),
+			);
+
+			for (const duration of durations) {
+				expect(duration.split(", ").every((value) => value === "0s")).toBe(
+					true,
+				);
+			}
+		});
+
+		test("should keep transitions without the preference", async () => {
+			await page.emulateMedia({ reducedMotion: "no-preference" });
+			await loadFixture(page, "forms");
+
+			const duration = await page.$eval(
+				"#name",
+				(el) => getComputedStyle(el).transitionDuration,
+			);
+			await page.emulateMedia({ reducedMotion: "reduce" });
+
+			expect(duration).not.toBe("0s, 0s");
+		});
+	});
+
+	describe("prefers-contrast: more", () => {
+		beforeAll(async () => {
+			await page.emulateMedia({ contrast: "more" });
+		});
+
+		afterAll(async () => {
+			await page.emulateMedia({ contrast: null });
+		});
+
+		test("should give inputs a solid border in the text color", async () => {
+			await loadFixture(page, "forms");
+
+			const input = await page.$eval("#name", (el) => {
+				const styles = getComputedStyle(el);
+				return {
+					style: styles.borderTopStyle,
+					width: Number.parseFloat(styles.borderTopWidth),
+					borderColor: styles.borderTopColor,
+					color: styles.color,
+				};
+			});
+
+			expect(input.style).toBe("solid");
+			expect(input.width).toBeGreaterThanOrEqual(2);
+			expect(input.borderColor).toBe(input.color);
+		});
+
+		test("should strengthen table borders", async () => {
+			await loadFixture(page, "tables");
+
+			const cell = await page.$eval("td", (el) => {
+				const styles = getComputedStyle(el);
+				return {
+					width: Number.parseFloat(styles.borderBottomWidth),
+					borderColor: styles.borderBottomColor,
+					color: styles.color,
+				};
+			});
+
+			expect(cell.width).toBeGreaterThanOrEqual(2);
+			expect(cell.borderColor).toBe(cell.color);
+		});
+
+		test("should show an opaque focus outline", async () => {
+			await loadFixture(page, "forms");
+			await page.focus("#name");
+
+			const outline = await page.$eval("#name", (el) => {
+				const styles = getComputedStyle(el);
+				return {
+					style: styles.outlineStyle,
+					width: Number.parseFloat(styles.outlineWidth),
+					color: styles.outlineColor,
+				};
+			});
+
+			expect(outline.style).toBe("solid");
+			expect(outline.width).toBeGreaterThanOrEqual(3);
+			expect(outline.color).toMatch(/^rgb\(/);
+		});
+
+		test("should not blur behind dialogs", async () => {
+			await loadFixture(page, "dialog");
+			await page.click("#open-dialog");
+
+			const filter = await page.$eval(
+				"dialog",
+				(el) => getComputedStyle(el, "::backdrop").backdropFilter,
+			);
+
+			expect(filter).toBe("none");
+		});
+	});
+
+	describe("forced-colors: active", () => {
+		beforeAll(async () => {
+			await page.emulateMedia({ forcedColors: "active" });
+		});
+
+		afterAll(async () => {
+			await page.emulateMedia({ forcedColors: null });
+		});
+
+		test("should use the Canvas and CanvasText system colors", async () => {
+			await loadFixture(page, "typography");
+
+			const body = await page.evaluate(() => {
+				const styles = getComputedStyle(document.body);
+				return { background: styles.backgroundColor, color: styles.color };
+			});
+
+			expect(body.background).toBe(await computedColor(page, "Canvas"));
+			expect(body.color).toBe(await computedColor(page, "CanvasText"));
+		});
+
+		test("should outline buttons in ButtonText", async () => {
+			await loadFixture(page, "forms");
+
+			const button = await page.$eval('button[type="submit"]', (el) => {
+				const styles = getComputedStyle(el);
+				return { style: styles.borderTopStyle, color: styles.borderTopColor };
+			});
+
+			expect(button.style).toBe("solid");
+			expect(button.color).toBe(await computedColor(page, "ButtonText"));
+		});
+
+		test("invalid fields should keep a distinct border", async () => {
+			await loadFixture(page, "forms");
+
+			const border = (selector: string) =>
+				page.$eval(selector, (el) => {
+					const styles = getComputedStyle(el);
+					return { style: styles.borderTopStyle, width: styles.borderTopWidth };
+				});
+
+			expect(await border("#username")).toEqual({
+				style: "dashed",
+				width: "2px",
+			});
+			expect(await border("#name")).toEqual({ style: "solid", width: "1px" });
+		});
+
+		test("should show focus with a Highlight outline", async () => {
+			await loadFixture(page, "forms");
+			await page.focus("#name");
+
+			const outline = await page.$eval("#name", (el) => {
+				const styles = getComputedStyle(el);
+				return { style: styles.outlineStyle, color: styles.outlineColor };
+			});
+
+			expect(outline.style).toBe("solid");
+			expect(outline.color).toBe(await computedColor(page, "Highlight"));
+		});
+	});
+});
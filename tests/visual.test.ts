@@ -1,12 +1,23 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
 import { type Browser, chromium, type Page } from "playwright";
-import { BASE_URL, BROWSER_OPTIONS, CONTEXT_OPTIONS } from "./test-config";
+import { THEMES } from "../src/demo/theme-list";
+import { computedColor } from "./fixtures";
+import { compareScreenshot } from "./snapshots";
+import {
+	BASE_URL,
+	BROWSER_OPTIONS,
+	CONTEXT_OPTIONS,
+	VIEWPORTS,
+} from "./test-config";
 
 /**
  * Visual Regression Tests
  *
- * Note: Some tests here verify DEMO-specific behavior (theme switcher buttons,
+ * Note: Some tests here verify DEMO-specific behavior (the theme switcher,
  * inline styles). These are marked with comments.
+ *
+ * Screenshots of every demo section are compared against the baselines in
+ * tests/__screenshots__/ - update them with `bun run test:visual:update`.
  */
 describe("Visual Regression Tests", () => {
 	let browser: Browser;
@@ -121,31 +132,14 @@ describe("Visual Regression Tests", () => {
 	test("theme switcher should work", async () => {
 		await page.goto(BASE_URL);
 
-		// Click dark theme button
-		await page.click("#btn-dark");
-		await page.waitForTimeout(200);
-
-		const darkThemeApplied = await page.evaluate(() => {
-			return (
-				document.documentElement.style.getPropertyValue("--background-body") ===
-				"#000000"
-			);
-		});
-
-		expect(darkThemeApplied).toBe(true);
-
-		// Click light theme button
-		await page.click("#btn-light");
-		await page.waitForTimeout(200);
+		// Computed, since the minified demo CSS shortens #000000 to #000
+		const backgroundBody = () => computedColor(page, "var(--background-body)");
 
-		const lightThemeApplied = await page.evaluate(() => {
-			return (
-				document.documentElement.style.getPropertyValue("--background-body") ===
-				"#ffffff"
-			);
-		});
+		await page.selectOption("juice-theme-switcher select", "dark");
+		expect(await backgroundBody()).toBe("rgb(0, 0, 0)");
 
-		expect(lightThemeApplied).toBe(true);
+		await page.selectOption("juice-theme-switcher select", "light");
+		expect(await backgroundBody()).toBe("rgb(255, 255, 255)");
 	});
 
 	test("all viewports should render correctly", async () => {
@@ -172,3 +166,109 @@ describe("Visual Regression Tests", () => {
 		}
 	});
 });
+
+interface ThemeCase {
+	name: string;
+	colorScheme: "light" | "dark";
+	/** Theme picked in the demo's theme switcher (sets data-theme) */
+	dataTheme?: string;
+}
+
+// System light and dark, plus every other theme forced through data-theme
+const THEME_CASES: ThemeCase[] = [
+	{ name: "light", colorScheme: "light" },
+	{ name: "dark", colorScheme: "dark" },
+	...THEMES.filter(({ name }) => name !== "light").map(({ name }) => ({
+		name: `data-theme-${name}`,
+		colorScheme: "light" as const,
+		dataTheme: name,
+	})),
+];
+
+// Keep screenshots independent of the package version and web fonts loading
+const stabilize = (page: Page) =>
+	page.evaluate(async () => {
+		await document.fonts.ready;
+		const walker = document.createTreeWalker(
+			document.body,
+			NodeFilter.SHOW_TEXT,
+		);
+		while (walker.nextNode()) {
+			const node = walker.currentNode;
+			node.textContent = node.textContent!.replace(
+				/@(\d+\.\d+\.\d+[\w.-]*|\{\{VERSION\}\})\//g,
+				"@x.y.z/",
+			);
+		}
+	});
+
+describe("Screenshots", () => {
+	let browser: Browser;
+
+	beforeAll(async () => {
+		browser = await chromium.launch(BROWSER_OPTIONS);
+	});
+
+	afterAll(async () => {
+		await browser.close();
+	});
+
+	for (const [viewportKey, viewport] of Object.entries(VIEWPORTS)) {
+		for (const theme of THEME_CASES) {
+			test(`${viewport.name} / ${theme.name} sections should match baselines`, async () => {
+				const context = await browser.newContext({
+					...CONTEXT_OPTIONS,
+					viewport: { width: viewport.width, height: viewport.height },
+					colorScheme: theme.colorScheme,
+					reducedMotion: "reduce",
+				});
+				if (theme.dataTheme) {
+					await context.addInitScript((name) => {
+						localStorage.setItem("theme", name);
+					}, theme.dataTheme);
+				}
+				const page = await context.newPage();
+
+				try {
+					await page.goto(BASE_URL, { waitUntil: "networkidle" });
+					await stabilize(page);
+
+					const sections = page.locator("main > section");
+					// Section id, or its heading as a slug (e.g. "details-summary")
+					const names = await sections.evaluateAll((elements) =>
+						elements.map(
+							(section, i) =>
+								section.id ||
+								section
+									.querySelector("h2")
+									?.textContent?.toLowerCase()
+									.replace(/[^a-z0-9]+/g, "-")
+									.replace(/^-|-$/g, "") ||
+								`section-${i + 1}`,
+						),
+					);
+
+					const failures: string[] = [];
+					for (const [i, name] of names.entries()) {
+						const screenshot = await sections.nth(i).screenshot({
+							animations: "disabled",
+							caret: "hide",
+						});
+						const result = await compareScreenshot(
+							page,
+							`${viewportKey}/${theme.name}/${name}`,
+							screenshot,
+						);
+						if (result.status === "mismatch") {
+							failures.push(result.message!);
+						}
+					}
+
+					expect(failures).toEqual([]);
+				} finally {
+					await context.close();
+				}
+			}, 120_000);
+		}
+	}
+});